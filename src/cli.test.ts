@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import path from 'path';
+
+const CLI = path.join(__dirname, 'cli.ts');
+
+/*
+ * Запуск командной строки в отдельном процессе на виртуальных часах
+ */
+function run(...args: string[]): { status: number | null; stdout: string; stderr: string } {
+  const env = Object.fromEntries(Object.entries(process.env).filter(([name]) => !name.startsWith('BEST_SORT_')));
+  const result = spawnSync(process.execPath, ['--import', 'tsx', CLI, ...args], {
+    encoding: 'utf8',
+    env: { ...env, BEST_SORT_CLOCK: 'VIRTUAL' },
+    timeout: 30_000
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+test('sorts negative numbers given as arguments', () => {
+  const result = run('-5', '3', '-1.5', '0');
+  assert.equal(result.status, 0, result.stderr);
+  assert.equal(result.stdout, '-5\n-1.5\n0\n3\n');
+});
+
+test('strategy IDs and choices are case-insensitive', () => {
+  const result = run('-s', 'merge', '--order', 'DESC', '-o', 'json', '--', '2', '-7', '5');
+  assert.equal(result.status, 0, result.stderr);
+  assert.equal(result.stdout, '[5,2,-7]\n');
+});
+
+test('sorting failures exit with 1', () => {
+  const result = run('--delay-mapping', 'linear', '-5', '3');
+  assert.equal(result.status, 1);
+  assert.match(result.stderr, /^best-sort: .*negative/m);
+});
+
+test('invalid command lines and settings exit with 2', () => {
+  for (const args of [['--nope', '1'], ['-s', 'missing', '1'], ['--delay-scale', '0', '1'], ['--order', 'up', '1']]) {
+    const result = run(...args);
+    assert.equal(result.status, 2, `${args.join(' ')}: ${result.stderr}`);
+    assert.match(result.stderr, /Try --help for usage\./);
+  }
+});
+
+test('invalid input exits with 3', () => {
+  for (const args of [['1', 'two', '3'], ['-i', 'json', '{"a":1}']]) {
+    const result = run(...args);
+    assert.equal(result.status, 3, `${args.join(' ')}: ${result.stderr}`);
+    assert.equal(result.stdout, '');
+  }
+});
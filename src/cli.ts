@@ -0,0 +1,465 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import { parseArgs, ParseArgsConfig } from 'util';
+import {
+  ArrayValidationError,
+  BenchmarkRunner,
+  ClockType,
+  ConcreteSortingStrategyFactory,
+  ConfigValidationError,
+  ConfigurationManager,
+  ConsoleLogSink,
+  DelayMappingType,
+  HtmlReportGenerator,
+  LogManager,
+  Logger,
+  SortableNumber,
+  SorterBuilder,
+  SortingConfig,
+  SortOrder,
+  StatisticsObserver,
+  TerminalAnimationObserver
+} from './index';
+
+/*
+ * Коды завершения командной строки
+ */
+enum ExitCode {
+  SUCCESS = 0,
+  FAILURE = 1,
+  USAGE_ERROR = 2,
+  VALIDATION_ERROR = 3
+}
+
+/*
+ * Форматы ввода и вывода чисел
+ */
+enum DataFormat {
+  AUTO = 'auto',
+  LINES = 'lines',
+  CSV = 'csv',
+  JSON = 'json'
+}
+
+/*
+ * Ошибка в аргументах командной строки
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const HELP = `Usage: best-sort [options] [numbers...]
+
+Sorts numbers given as arguments, read from --file or from stdin.
+Negative numbers can be given as they are (best-sort -5 3); arguments
+after -- are always read as numbers.
+Settings are taken from the config file, then BEST_SORT_* environment
+variables, then the flags below.
+
+Options:
+  -s, --strategy <id>        Strategy ID, case-insensitive (default: DEFAULT),
+                             see --list
+  -f, --file <path>          Read numbers from a file
+  -i, --input-format <fmt>   auto | lines | csv | json (default: auto)
+  -o, --format <fmt>         lines | csv | json (default: lines)
+      --order <order>        asc | desc (default: asc)
+      --stable               Keep input order of equal values
+      --verify               Detect inversions in the result
+      --repair               Repair detected inversions (implies --verify)
+      --clock <clock>        real | virtual (default: real)
+      --delay-mapping <m>    normalized | logarithmic | offset | linear
+                             (default: normalized)
+      --delay-scale <n>      Milliseconds per value unit (linear, offset)
+      --base-delay <ms>      Delay range (normalized, logarithmic)
+      --config <path>        Load settings from a JSON file (default: $BEST_SORT_CONFIG)
+      --print-config         Print the effective configuration and exit
+      --plugin <path>        Load a strategy plugin module (repeatable)
+      --worker               Run the strategy in a worker thread
+      --log                  Print sorting progress to stderr
+      --animate              Draw the sort as a bar chart on stderr
+      --report <path>        Write an HTML report of the run
+      --benchmark            Benchmark all strategies on generated inputs
+                             (table, or JSON with --format json)
+      --sizes <list>         Benchmark input sizes (default: 5,100,1000)
+      --repeats <n>          Benchmark runs per input (default: 5)
+  -l, --list                 List available strategies
+  -h, --help                 Show this help
+`;
+
+/*
+ * Флаги командной строки
+ */
+const OPTIONS = {
+  strategy: { type: 'string', short: 's', default: 'DEFAULT' },
+  file: { type: 'string', short: 'f' },
+  'input-format': { type: 'string', short: 'i', default: DataFormat.AUTO },
+  format: { type: 'string', short: 'o', default: DataFormat.LINES },
+  order: { type: 'string' },
+  stable: { type: 'boolean', default: false },
+  verify: { type: 'boolean', default: false },
+  repair: { type: 'boolean', default: false },
+  clock: { type: 'string' },
+  'delay-mapping': { type: 'string' },
+  'delay-scale': { type: 'string' },
+  'base-delay': { type: 'string' },
+  config: { type: 'string' },
+  'print-config': { type: 'boolean', default: false },
+  plugin: { type: 'string', multiple: true, default: [] },
+  worker: { type: 'boolean', default: false },
+  log: { type: 'boolean', default: false },
+  animate: { type: 'boolean', default: false },
+  report: { type: 'string' },
+  benchmark: { type: 'boolean', default: false },
+  sizes: { type: 'string' },
+  repeats: { type: 'string' },
+  list: { type: 'boolean', short: 'l', default: false },
+  help: { type: 'boolean', short: 'h', default: false }
+} satisfies ParseArgsConfig['options'];
+
+/*
+ * Отрицательное число, которое parseArgs принял бы за флаг
+ */
+const NEGATIVE_NUMBER = /^-(\d|\.\d|Infinity$)/;
+
+/*
+ * Принимает ли флаг значение следующим аргументом
+ */
+function expectsValue(arg: string): boolean {
+  const options: Record<string, { type: string; short?: string }> = OPTIONS;
+  if (arg.startsWith('--')) {
+    return !arg.includes('=') && options[arg.slice(2)]?.type === 'string';
+  }
+  // В группе коротких флагов остаток группы после флага со значением
+  // считается его значением
+  const valueShorts = Object.values(options).filter(option => option.type === 'string').map(option => option.short);
+  const group = arg.slice(1).split('');
+  return group.findIndex(short => valueShorts.includes(short)) === group.length - 1;
+}
+
+/*
+ * Подготовка аргументов для parseArgs: позиционные аргументы, в том
+ * числе отрицательные числа, переносятся за "--" в исходном порядке,
+ * а значения флагов присоединяются к флагам, чтобы значения с минусом
+ * не принимались за флаги
+ */
+function normalizeArguments(argv: string[]): string[] {
+  const flags: string[] = [];
+  const positionals: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-' || NEGATIVE_NUMBER.test(arg)) {
+      positionals.push(arg);
+    } else if (expectsValue(arg) && i + 1 < argv.length) {
+      flags.push(arg.startsWith('--') ? `${arg}=${argv[++i]}` : `${arg}${argv[++i]}`);
+    } else {
+      flags.push(arg);
+    }
+  }
+
+  return positionals.length > 0 ? [...flags, '--', ...positionals] : flags;
+}
+
+/*
+ * Разбор аргументов командной строки
+ */
+function parseCliArguments(argv: string[]) {
+  try {
+    return parseArgs({
+      args: normalizeArguments(argv),
+      allowPositionals: true,
+      options: OPTIONS
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+type CliArguments = ReturnType<typeof parseCliArguments>;
+
+/*
+ * Проверка значения флага по списку допустимых
+ */
+function parseChoice<E extends string>(flag: string, value: string, choices: Record<string, E>): E {
+  const choice = choices[value.toLowerCase()];
+  if (choice === undefined) {
+    throw new UsageError(`--${flag} must be one of: ${Object.keys(choices).join(', ')}`);
+  }
+  return choice;
+}
+
+function parseNumberFlag(flag: string, value: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new UsageError(`--${flag} expects a number, got '${value}'`);
+  }
+  return number;
+}
+
+/*
+ * Построение конфигурации сортировки из флагов; неуказанные
+ * флаги не переопределяют значения из файла и окружения
+ */
+function buildConfig(values: CliArguments['values']): Partial<SortingConfig> {
+  const config: Partial<SortingConfig> = {};
+
+  if (values.log) {
+    config.enableLogging = true;
+  }
+  if (values.order !== undefined) {
+    config.order = parseChoice('order', values.order, { asc: SortOrder.ASCENDING, desc: SortOrder.DESCENDING });
+  }
+  if (values.stable) {
+    config.stable = true;
+  }
+  if (values.verify || values.repair) {
+    config.verifyOrder = true;
+  }
+  if (values.repair) {
+    config.repairInversions = true;
+  }
+
+  if (values.clock !== undefined) {
+    config.clock = parseChoice('clock', values.clock, { real: ClockType.REAL, virtual: ClockType.VIRTUAL });
+  }
+  if (values['delay-mapping'] !== undefined) {
+    config.delayMapping = parseChoice('delay-mapping', values['delay-mapping'], {
+      linear: DelayMappingType.LINEAR,
+      offset: DelayMappingType.OFFSET,
+      normalized: DelayMappingType.NORMALIZED,
+      logarithmic: DelayMappingType.LOGARITHMIC
+    });
+  }
+  if (values['delay-scale'] !== undefined) {
+    config.delayScale = parseNumberFlag('delay-scale', values['delay-scale']);
+  }
+  if (values['base-delay'] !== undefined) {
+    config.baseDelayMs = parseNumberFlag('base-delay', values['base-delay']);
+  }
+
+  return config;
+}
+
+/*
+ * Чтение исходного текста: позиционные аргументы, файл или stdin
+ */
+async function readInput(positionals: string[], file?: string): Promise<string> {
+  if (file !== undefined) {
+    if (positionals.length > 0) {
+      throw new UsageError('Numbers cannot be given both as arguments and with --file');
+    }
+    return fs.readFile(file, 'utf8');
+  }
+
+  if (positionals.length > 0) {
+    return positionals.join('\n');
+  }
+
+  if (process.stdin.isTTY) {
+    throw new UsageError('No input: pass numbers as arguments, use --file or pipe them to stdin');
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/*
+ * Разбор чисел из текста в заданном формате
+ */
+function parseNumbers(text: string, format: DataFormat): number[] {
+  const trimmed = text.trim();
+  const effective = format === DataFormat.AUTO
+    ? (trimmed.startsWith('[') ? DataFormat.JSON : DataFormat.CSV)
+    : format;
+
+  let tokens: unknown[];
+  switch (effective) {
+    case DataFormat.JSON:
+      try {
+        tokens = JSON.parse(trimmed);
+      } catch (error) {
+        throw new ArrayValidationError(`Invalid JSON input: ${(error as Error).message}`);
+      }
+      if (!Array.isArray(tokens)) {
+        throw new ArrayValidationError('JSON input must be an array of numbers');
+      }
+      break;
+
+    case DataFormat.LINES:
+      tokens = trimmed.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+      break;
+
+    case DataFormat.CSV:
+    default:
+      // Запятые, переводы строк и пробелы считаются разделителями
+      tokens = trimmed.split(/[\s,;]+/).filter(token => token !== '');
+      break;
+  }
+
+  return tokens.map(token => {
+    const number = typeof token === 'number' ? token : Number(token);
+    if ((typeof token === 'string' && token.trim() === '') || !Number.isFinite(number)) {
+      throw new ArrayValidationError(`Not a number: ${JSON.stringify(token)}`);
+    }
+    return number;
+  });
+}
+
+/*
+ * Поиск стратегии по ID: сначала точное совпадение, затем без учёта
+ * регистра, если такая стратегия единственная
+ */
+function resolveStrategyId(factory: ConcreteSortingStrategyFactory<SortableNumber>, id: string): string {
+  if (factory.hasStrategy(id)) {
+    return id;
+  }
+  const matches = factory.listAvailableStrategies()
+    .filter(meta => meta.id.toLowerCase() === id.toLowerCase());
+  if (matches.length > 1) {
+    throw new UsageError(`Strategy '${id}' is ambiguous: ${matches.map(meta => meta.id).join(', ')}`);
+  }
+  if (matches.length === 0) {
+    throw new UsageError(`Unknown strategy '${id}', see --list`);
+  }
+  return matches[0].id;
+}
+
+function formatOutput(numbers: number[], format: DataFormat): string {
+  switch (format) {
+    case DataFormat.JSON:
+      return JSON.stringify(numbers);
+    case DataFormat.CSV:
+      return numbers.join(',');
+    case DataFormat.LINES:
+    default:
+      return numbers.join('\n');
+  }
+}
+
+async function main(argv: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCliArguments(argv);
+
+  if (values.help) {
+    process.stdout.write(HELP);
+    return ExitCode.SUCCESS;
+  }
+
+  const factory = new ConcreteSortingStrategyFactory<SortableNumber>();
+  for (const plugin of values.plugin ?? []) {
+    await factory.loadPlugin(plugin);
+  }
+
+  if (values.list) {
+    factory.listAvailableStrategies().forEach(meta => {
+      const traits = [meta.complexity, meta.stable ? 'stable' : 'unstable', meta.timeBased ? 'time-based' : '']
+        .filter(trait => trait !== '')
+        .join(', ');
+      process.stdout.write(`${meta.id.padEnd(12)} ${meta.name} (${traits})\n`);
+    });
+    return ExitCode.SUCCESS;
+  }
+
+  const strategyId = resolveStrategyId(factory, values.strategy!);
+
+  const inputFormat = parseChoice('input-format', values['input-format']!, {
+    auto: DataFormat.AUTO, lines: DataFormat.LINES, csv: DataFormat.CSV, json: DataFormat.JSON
+  });
+  const outputFormat = parseChoice('format', values.format!, {
+    lines: DataFormat.LINES, csv: DataFormat.CSV, json: DataFormat.JSON
+  });
+  // Вывод хода сортировки по умолчанию выключен; файл, окружение
+  // и флаги могут его включить
+  const manager = ConfigurationManager.getInstance();
+  manager.updateConfig({ enableLogging: false }, 'command line default');
+  manager.load({ file: values.config });
+  manager.updateConfig(buildConfig(values), 'command line');
+
+  if (values['print-config']) {
+    manager.describeConfig().forEach(({ key, value, source }) => {
+      process.stdout.write(`${key}=${JSON.stringify(value)}\t# ${source}\n`);
+    });
+    return ExitCode.SUCCESS;
+  }
+
+  if (values.benchmark) {
+    let runner: BenchmarkRunner;
+    try {
+      runner = new BenchmarkRunner(factory, {
+        sizes: values.sizes?.split(',').map(size => parseNumberFlag('sizes', size)),
+        repeats: values.repeats !== undefined ? parseNumberFlag('repeats', values.repeats) : undefined,
+        clock: values.clock !== undefined ? manager.getConfig().clock : undefined
+      });
+    } catch (error) {
+      throw error instanceof RangeError ? new UsageError(error.message) : error;
+    }
+
+    const report = await runner.run();
+    process.stdout.write((outputFormat === DataFormat.JSON
+      ? JSON.stringify(report, null, 2)
+      : BenchmarkRunner.formatTable(report)) + '\n');
+    return ExitCode.SUCCESS;
+  }
+
+  const numbers = parseNumbers(await readInput(positionals, values.file), inputFormat);
+
+  const builder = new SorterBuilder<SortableNumber>()
+    .setArray(numbers.map(n => new SortableNumber(n)))
+    .setStrategy(factory.createStrategy(strategyId));
+  if (values.worker) {
+    builder.setWorker({ strategyId, plugins: values.plugin });
+  }
+  if (values.animate) {
+    builder.addObserver(new TerminalAnimationObserver({ stream: process.stderr }));
+  }
+  const statistics = new StatisticsObserver<SortableNumber>();
+  if (values.report !== undefined) {
+    builder.addObserver(statistics);
+  }
+  const sorter = builder.build();
+
+  // stdout оставляем только для результата
+  LogManager.getInstance().setLogger(new Logger([new ConsoleLogSink(true)]));
+
+  // Построчный вывод печатает элементы по мере размещения
+  if (outputFormat === DataFormat.LINES) {
+    for await (const element of sorter.stream()) {
+      process.stdout.write(`${element.getValue()}\n`);
+    }
+  } else {
+    const result = await sorter.execute();
+    process.stdout.write(formatOutput(result.map(x => x.getValue()), outputFormat) + '\n');
+  }
+
+  if (values.report !== undefined) {
+    await new HtmlReportGenerator<SortableNumber>()
+      .writeToFile(values.report, sorter.getEventHistory(), statistics.getStatistics());
+  }
+
+  return ExitCode.SUCCESS;
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    process.stderr.write(`best-sort: ${(error as Error).message}\n`);
+    if (error instanceof UsageError || error instanceof ConfigValidationError) {
+      process.stderr.write('Try --help for usage.\n');
+      process.exitCode = ExitCode.USAGE_ERROR;
+    } else if (error instanceof ArrayValidationError) {
+      process.exitCode = ExitCode.VALIDATION_ERROR;
+    } else {
+      process.exitCode = ExitCode.FAILURE;
+    }
+  });
@@ -0,0 +1,236 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ArraySorter,
+  BatchCommand,
+  BatchExecutionError,
+  ClockType,
+  CommandEvent,
+  CommandInvoker,
+  CommandStatus,
+  ConfigurationManager,
+  DefaultStrategy,
+  ErrorPolicies,
+  ExecuteSortingCommand,
+  FailureAction,
+  ICommand,
+  LogManager,
+  SortableNumber,
+  SorterBuilder,
+  SortOrder,
+  UpdateConfigCommand,
+  VirtualClockScheduler
+} from './index';
+
+LogManager.getInstance().silence();
+afterEach(() => ConfigurationManager.getInstance().resetToDefaults());
+
+/*
+ * Команда, записывающая выполнения и отмены в общий журнал
+ */
+class RecordingCommand implements ICommand {
+  constructor(
+    private readonly name: string,
+    private readonly log: string[],
+    private readonly fail: boolean = false
+  ) {}
+
+  async execute(): Promise<string> {
+    if (this.fail) {
+      throw new Error(`${this.name} failed`);
+    }
+    this.log.push(`do ${this.name}`);
+    return this.name;
+  }
+
+  async undo(): Promise<void> {
+    this.log.push(`undo ${this.name}`);
+  }
+
+  getDescription(): string {
+    return this.name;
+  }
+}
+
+function numberSorter(values: number[]): ArraySorter<SortableNumber> {
+  return new SorterBuilder<SortableNumber>()
+    .setArray(values.map(value => new SortableNumber(value)))
+    .setStrategy(new DefaultStrategy<SortableNumber>())
+    .setConfig({ clock: ClockType.VIRTUAL, enableLogging: false })
+    .disableDefaultObservers()
+    .build();
+}
+
+function valuesOf(sorter: ArraySorter<SortableNumber>): number[] {
+  return sorter.getArray().map(element => element.getValue());
+}
+
+test('undo and redo walk the history', async () => {
+  const sorter = numberSorter([3, 1, 2]);
+  const invoker = new CommandInvoker();
+  invoker.enqueueCommand(new UpdateConfigCommand({ baseDelayMs: 5 }));
+  invoker.enqueueCommand(new ExecuteSortingCommand(sorter));
+  await invoker.executeAll();
+  assert.deepEqual(valuesOf(sorter), [1, 2, 3]);
+  assert.deepEqual(invoker.getUndoHistory().map(command => command.getDescription()), [
+    'Update sorting configuration',
+    'Execute array sorting'
+  ]);
+
+  assert.equal(await invoker.undo(), true);
+  assert.deepEqual(valuesOf(sorter), [3, 1, 2]);
+  assert.equal(await invoker.undo(), true);
+  const config = ConfigurationManager.getInstance().describeConfig().find(entry => entry.key === 'baseDelayMs')!;
+  assert.deepEqual([config.value, config.source], [1000, 'default']);
+  assert.equal(await invoker.undo(), false);
+
+  await invoker.redo();
+  await invoker.redo();
+  assert.deepEqual(valuesOf(sorter), [1, 2, 3]);
+  assert.equal(ConfigurationManager.getInstance().getConfig().baseDelayMs, 5);
+  assert.equal(invoker.canRedo(), false);
+  assert.equal(await invoker.redo(), undefined);
+});
+
+test('a new command clears the redo history', async () => {
+  const log: string[] = [];
+  const invoker = new CommandInvoker();
+  invoker.enqueueCommand(new RecordingCommand('a', log));
+  invoker.enqueueCommand(new RecordingCommand('b', log));
+  await invoker.executeAll();
+  await invoker.undo();
+
+  invoker.enqueueCommand(new RecordingCommand('c', log));
+  await invoker.executeNext();
+  assert.equal(invoker.canRedo(), false);
+  assert.deepEqual(invoker.getUndoHistory().map(command => command.getDescription()), ['a', 'c']);
+});
+
+test('a command without undo is not recorded and clears the undo history', async () => {
+  const log: string[] = [];
+  const invoker = new CommandInvoker();
+  invoker.enqueueCommand(new RecordingCommand('a', log));
+  invoker.enqueueCommand({ execute: async () => log.push('irreversible'), getDescription: () => 'irreversible' });
+  await invoker.executeAll();
+
+  assert.equal(invoker.canUndo(), false);
+  assert.equal(await invoker.undo(), false);
+  assert.deepEqual(invoker.getUndoHistory(), []);
+  assert.equal(invoker.getExecutedCommands().length, 2);
+  assert.deepEqual(log, ['do a', 'irreversible']);
+});
+
+test('a failing batch rolls back in reverse order', async () => {
+  const log: string[] = [];
+  const invoker = new CommandInvoker();
+  const failing = new RecordingCommand('c', log, true);
+
+  const error = await invoker
+    .executeBatch([new RecordingCommand('a', log), new RecordingCommand('b', log), failing], 'abc')
+    .then(() => undefined, (error: unknown) => error);
+
+  assert.ok(error instanceof BatchExecutionError);
+  assert.equal(error.failedCommand, failing);
+  assert.equal(error.rolledBack, 2);
+  assert.match(error.message, /Batch failed at 'c': c failed; rolled back 2 command\(s\)/);
+  assert.deepEqual(log, ['do a', 'do b', 'undo b', 'undo a']);
+  assert.equal(invoker.canUndo(), false);
+});
+
+test('a successful batch is one history entry', async () => {
+  const sorter = numberSorter([1, 3, 2]);
+  const invoker = new CommandInvoker();
+  await invoker.executeBatch([
+    new UpdateConfigCommand({ order: SortOrder.DESCENDING }),
+    new ExecuteSortingCommand(sorter)
+  ], 'Sort descending');
+  assert.deepEqual(invoker.getUndoHistory().map(command => command.getDescription()), ['Sort descending']);
+
+  await invoker.undo();
+  assert.deepEqual(valuesOf(sorter), [1, 3, 2]);
+  assert.equal(ConfigurationManager.getInstance().getConfig().order, SortOrder.ASCENDING);
+  assert.throws(
+    () => new BatchCommand([{ execute: async () => undefined, getDescription: () => 'log' }]),
+    /cannot be undone and cannot be part of a batch/
+  );
+});
+
+/*
+ * Команда, которая завершается ошибкой заданное число раз подряд
+ */
+function flakyCommand(name: string, failures: number): ICommand {
+  let attempts = 0;
+  return {
+    async execute() {
+      if (++attempts <= failures) {
+        throw new Error(`${name} attempt ${attempts} failed`);
+      }
+      return name;
+    },
+    async undo() {},
+    getDescription: () => name
+  };
+}
+
+function recordEvents(invoker: CommandInvoker): CommandEvent[] {
+  const events: CommandEvent[] = [];
+  invoker.addObserver({ update: event => events.push(event) });
+  return events;
+}
+
+test('retry policy backs off exponentially on the invoker clock', async () => {
+  const clock = new VirtualClockScheduler();
+  const invoker = new CommandInvoker(ErrorPolicies.stop(), clock);
+  const events = recordEvents(invoker);
+  const command = flakyCommand('flaky', 3);
+  invoker.enqueueCommand(command, ErrorPolicies.retry(3, { backoffMs: 100, backoffFactor: 3, maxBackoffMs: 500 }));
+
+  const [outcome] = await invoker.executeAllWithResults();
+  assert.deepEqual(
+    [outcome.status, outcome.result, outcome.attempts, outcome.durationMs],
+    [CommandStatus.SUCCEEDED, 'flaky', 4, 100 + 300 + 500]
+  );
+  assert.deepEqual(events.map(event => [event.type, event.attempt, event.delayMs]), [
+    ['COMMAND_STARTED', 1, undefined], ['COMMAND_RETRYING', 1, 100],
+    ['COMMAND_STARTED', 2, undefined], ['COMMAND_RETRYING', 2, 300],
+    ['COMMAND_STARTED', 3, undefined], ['COMMAND_RETRYING', 3, 500],
+    ['COMMAND_STARTED', 4, undefined], ['COMMAND_SUCCEEDED', 4, undefined]
+  ]);
+  assert.equal(clock.now(), 900);
+});
+
+test('exhausted retries stop the queue and keep the rest queued', async () => {
+  const invoker = new CommandInvoker(ErrorPolicies.retry(1, { backoffMs: 10 }), new VirtualClockScheduler());
+  const events = recordEvents(invoker);
+  invoker.enqueueCommand(flakyCommand('broken', 5));
+  invoker.enqueueCommand(flakyCommand('next', 0));
+
+  const outcomes = await invoker.executeAllWithResults();
+  assert.equal(outcomes.length, 1);
+  assert.deepEqual([outcomes[0].status, outcomes[0].attempts, outcomes[0].action], [CommandStatus.FAILED, 2, FailureAction.STOP]);
+  assert.match(String(outcomes[0].error), /broken attempt 2 failed/);
+  assert.equal(events.at(-1)?.action, FailureAction.STOP);
+  assert.equal(invoker.getQueueSize(), 1);
+
+  invoker.enqueueCommand(flakyCommand('again', 5), ErrorPolicies.stop());
+  await assert.rejects(invoker.executeAll(), /again attempt 1 failed/);
+});
+
+test('skip policy records the failure and moves on', async () => {
+  const invoker = new CommandInvoker(ErrorPolicies.skip(), new VirtualClockScheduler());
+  invoker.enqueueCommand(flakyCommand('first', 0));
+  invoker.enqueueCommand(flakyCommand('broken', 1));
+  invoker.enqueueCommand(flakyCommand('last', 0));
+
+  const outcomes = await invoker.executeAllWithResults();
+  assert.deepEqual(outcomes.map(outcome => [outcome.status, outcome.action]), [
+    [CommandStatus.SUCCEEDED, undefined],
+    [CommandStatus.FAILED, FailureAction.SKIP],
+    [CommandStatus.SUCCEEDED, undefined]
+  ]);
+  assert.deepEqual(invoker.getUndoHistory().map(command => command.getDescription()), ['first', 'last']);
+
+  invoker.enqueueCommand(flakyCommand('skipped', 1));
+  assert.equal(await invoker.executeNext(), undefined);
+  assert.throws(() => ErrorPolicies.retry(-1), RangeError);
+});
@@ -0,0 +1,106 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ConfigurationManager,
+  ConfigValidationError,
+  DelayMappingType,
+  validateConfig
+} from './index';
+
+afterEach(() => ConfigurationManager.getInstance().resetToDefaults());
+
+function validationError(action: () => unknown): ConfigValidationError {
+  try {
+    action();
+  } catch (error) {
+    assert.ok(error instanceof ConfigValidationError, `expected ConfigValidationError, got ${error}`);
+    return error;
+  }
+  assert.fail('expected ConfigValidationError');
+}
+
+test('validateConfig accepts valid settings', () => {
+  const config = { baseDelayMs: 0, delayScale: 0.5, delayMapping: DelayMappingType.OFFSET, stable: true };
+  assert.deepEqual(validateConfig(config), config);
+});
+
+test('validateConfig lists every problem', () => {
+  const error = validationError(() => validateConfig(
+    { baseDelayMs: -5, maxRepairPasses: 1.5, stable: 'yes', order: 'UP', foo: 1 },
+    'test'
+  ));
+  assert.equal(error.source, 'test');
+  assert.deepEqual(error.issues, [
+    'baseDelayMs must be between 0 and 3600000, got -5',
+    'maxRepairPasses must be an integer, got 1.5',
+    'stable must be true or false, got "yes"',
+    'order must be one of ASCENDING, DESCENDING, got "UP"',
+    "unknown setting 'foo'"
+  ]);
+  assert.throws(() => validateConfig([]), ConfigValidationError);
+});
+
+test('delayScale must be greater than zero', () => {
+  assert.deepEqual(
+    validationError(() => validateConfig({ delayScale: 0 })).issues,
+    ['delayScale must be greater than 0 and at most 1000000, got 0']
+  );
+  assert.throws(() => validateConfig({ delayScale: -1 }), ConfigValidationError);
+  assert.throws(() => ConfigurationManager.getInstance().createScopedConfig({ delayScale: 0 }), ConfigValidationError);
+  assert.equal(validateConfig({ delayScale: 1_000_000 }).delayScale, 1_000_000);
+});
+
+test('environment variables are parsed and attributed', () => {
+  const manager = ConfigurationManager.getInstance().loadFromEnvironment({
+    BEST_SORT_BASE_DELAY_MS: ' 250 ',
+    BEST_SORT_STABLE: 'on',
+    BEST_SORT_DELAY_MAPPING: 'offset',
+    PATH: '/usr/bin'
+  });
+
+  const config = manager.getConfig();
+  assert.deepEqual([config.baseDelayMs, config.stable, config.delayMapping], [250, true, DelayMappingType.OFFSET]);
+  const sources = new Map(manager.describeConfig().map(entry => [entry.key, entry.source]));
+  assert.equal(sources.get('baseDelayMs'), 'env BEST_SORT_BASE_DELAY_MS');
+  assert.equal(sources.get('order'), 'default');
+});
+
+test('invalid environment variables are rejected together', () => {
+  const manager = ConfigurationManager.getInstance();
+  const error = validationError(() => manager.loadFromEnvironment({
+    BEST_SORT_BASE_DELAY_MS: '-5',
+    BEST_SORT_DELAY_SCALE: '0',
+    BEST_SORT_STABLE: 'maybe',
+    BEST_SORT_FOO: '1'
+  }));
+
+  assert.equal(error.source, 'environment');
+  assert.deepEqual(error.issues, [
+    'BEST_SORT_BASE_DELAY_MS: baseDelayMs must be between 0 and 3600000, got -5',
+    'BEST_SORT_DELAY_SCALE: delayScale must be greater than 0 and at most 1000000, got 0',
+    'BEST_SORT_STABLE: stable must be true or false, got "maybe"',
+    'BEST_SORT_FOO: unknown setting'
+  ]);
+  assert.equal(manager.getConfig().baseDelayMs, 1000);
+});
+
+test('load applies the file before the environment', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'best-sort-'));
+  try {
+    const file = path.join(dir, 'config.json');
+    fs.writeFileSync(file, JSON.stringify({ baseDelayMs: 50, stable: true }));
+
+    const manager = ConfigurationManager.getInstance().load({
+      env: { BEST_SORT_CONFIG: file, BEST_SORT_BASE_DELAY_MS: '75' }
+    });
+    assert.deepEqual([manager.getConfig().baseDelayMs, manager.getConfig().stable], [75, true]);
+
+    fs.writeFileSync(file, '{ not json');
+    assert.equal(validationError(() => manager.loadFromFile(file)).source, `file ${file}`);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,158 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ArraySorter,
+  DefaultStrategy,
+  EventType,
+  ISortingStrategy,
+  LogManager,
+  QuickSortStrategy,
+  SortableNumber,
+  SorterBuilder,
+  SortingAbortedError,
+  SortingEvent,
+  VirtualClockScheduler
+} from './index';
+
+LogManager.getInstance().silence();
+
+/*
+ * Сортировщик на виртуальных часах, которые двигаются только через advanceBy()
+ */
+function manualSorter(
+  values: number[],
+  strategy: ISortingStrategy<SortableNumber> = new DefaultStrategy<SortableNumber>()
+): { sorter: ArraySorter<SortableNumber>; clock: VirtualClockScheduler } {
+  const clock = new VirtualClockScheduler(0, false);
+  const sorter = new SorterBuilder<SortableNumber>()
+    .setArray(values.map(value => new SortableNumber(value)))
+    .setStrategy(strategy)
+    .setScheduler(clock)
+    .setConfig({ enableLogging: false, baseDelayMs: 1000 })
+    .disableDefaultObservers()
+    .build();
+  return { sorter, clock };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<SortingAbortedError> {
+  const error = await promise.then(() => undefined, (error: unknown) => error);
+  assert.ok(error instanceof SortingAbortedError, `expected SortingAbortedError, got ${error}`);
+  return error;
+}
+
+function eventTypes(events: SortingEvent<SortableNumber>[]): string[] {
+  return events
+    .filter(event => event.type !== EventType.STARTED)
+    .map(event => event.type === EventType.ELEMENT_SORTED ? `${event.type}:${event.element!.getValue()}` : event.type);
+}
+
+test('pause holds every element and resume places the rest', async () => {
+  const { sorter, clock } = manualSorter([4, 1, 3, 2]);
+  const controller = sorter.getController();
+  const sorting = sorter.execute({ timeoutMs: 10_000 });
+
+  controller.pause();
+  assert.equal(controller.getPendingCount(), 4);
+  clock.advanceBy(5000);
+  assert.equal(sorter.getContext().getElementCount(), 0);
+
+  controller.resume();
+  clock.advanceBy(5000);
+  assert.deepEqual((await sorting).map(element => element.getValue()), [1, 2, 3, 4]);
+
+  const paused = sorter.getEventHistory().find(event => event.type === EventType.PAUSED)!;
+  assert.equal(paused.metadata?.pendingTasks, 4);
+});
+
+test('step places exactly one element and never fires the timeout', async () => {
+  const { sorter, clock } = manualSorter([4, 1, 3, 2]);
+  const controller = sorter.getController();
+  const sorting = sorter.execute({ timeoutMs: 500 });
+
+  controller.pause();
+  assert.equal(controller.step(), true);
+  assert.equal(controller.step(), true);
+  assert.equal(controller.step(), true);
+  assert.equal(controller.getPendingCount(), 1);
+
+  assert.deepEqual(eventTypes(sorter.getEventHistory()), [
+    EventType.PAUSED,
+    EventType.STEPPED, `${EventType.ELEMENT_SORTED}:1`,
+    EventType.STEPPED, `${EventType.ELEMENT_SORTED}:2`,
+    EventType.STEPPED, `${EventType.ELEMENT_SORTED}:3`
+  ]);
+  const stepped = sorter.getEventHistory().filter(event => event.type === EventType.STEPPED);
+  assert.deepEqual(stepped.map(event => event.metadata?.pendingTasks), [3, 2, 1]);
+
+  controller.resume();
+  clock.advanceBy(2000);
+  await sorting;
+});
+
+test('timeout expires while paused', async () => {
+  const { sorter, clock } = manualSorter([4, 1, 3, 2]);
+  const controller = sorter.getController();
+  const sorting = sorter.execute({ timeoutMs: 500 });
+
+  controller.pause();
+  clock.advanceBy(600);
+
+  assert.ok((await rejection(sorting)).isTimeout());
+  assert.equal(controller.getPendingCount(), 0);
+  assert.equal(sorter.getEventHistory().at(-1)?.type, EventType.CANCELLED);
+});
+
+for (const strategy of [new DefaultStrategy<SortableNumber>(), new QuickSortStrategy<SortableNumber>()]) {
+  test(`${strategy.getName()} rejects a signal aborted before start`, async () => {
+    const { sorter, clock } = manualSorter([3, 1, 2], strategy);
+    const controller = new AbortController();
+    controller.abort('stop');
+
+    const error = await rejection(sorter.execute({ signal: controller.signal }));
+    assert.equal(error.placedCount, 0);
+    assert.equal(error.reason, 'stop');
+    assert.equal(error.isTimeout(), false);
+
+    const cancelled = sorter.getEventHistory().find(event => event.type === EventType.CANCELLED)!;
+    assert.deepEqual(
+      [cancelled.metadata?.placedElements, cancelled.metadata?.totalElements, cancelled.metadata?.reason],
+      [0, 3, 'stop']
+    );
+    assert.equal(sorter.getContext().getElementCount(), 0);
+    assert.equal(clock.getPendingCount(), 0);
+  });
+}
+
+test('abort mid-run clears pending timers and reports placed elements', async () => {
+  const { sorter, clock } = manualSorter([4, 1, 3, 2]);
+  const controller = new AbortController();
+  const sorting = sorter.execute({ signal: controller.signal, timeoutMs: 10_000 });
+
+  clock.advanceBy(400);
+  controller.abort(new Error('enough'));
+
+  const error = await rejection(sorting);
+  assert.equal(error.placedCount, 2);
+  assert.equal(error.isTimeout(), false);
+  assert.equal(clock.getPendingCount(), 0);
+
+  const cancelled = sorter.getEventHistory().at(-1)!;
+  assert.equal(cancelled.type, EventType.CANCELLED);
+  assert.deepEqual([cancelled.metadata?.placedElements, cancelled.metadata?.reason], [2, 'enough']);
+
+  clock.advanceBy(5000);
+  assert.equal(sorter.getContext().getElementCount(), 2);
+});
+
+test('timeout aborts with a timeout reason', async () => {
+  const { sorter, clock } = manualSorter([4, 1, 3, 2]);
+  const sorting = sorter.execute({ timeoutMs: 500 });
+
+  clock.advanceBy(600);
+
+  const error = await rejection(sorting);
+  assert.ok(error.isTimeout());
+  assert.equal(error.placedCount, 2);
+  assert.equal(clock.getPendingCount(), 0);
+  assert.match(String(sorter.getEventHistory().at(-1)?.metadata?.reason), /timed out after 500ms/);
+});
@@ -0,0 +1,129 @@
+import {
+  CommandInvoker,
+  ConcreteSortingStrategyFactory,
+  ConfigurationManager,
+  ExecuteSortingCommand,
+  HistoryObserver,
+  LoggingSortingRunner,
+  SortableNumber,
+  SorterBuilder,
+  StatisticsObserver,
+  StrategyType,
+  UpdateConfigCommand
+} from './index';
+
+/*
+ * Пример полного цикла: фабрика, наблюдатели, Builder и Command
+ */
+export async function demonstrateSorting(): Promise<void> {
+  // Настройка конфигурации
+  ConfigurationManager.getInstance().updateConfig({
+    enableLogging: true,
+    logPrefix: '> ',
+    showTimestamps: false
+  });
+
+  console.log('\n' + '='.repeat(70));
+  console.log('🎨 ARRAY SORTING USING');
+  console.log('='.repeat(70));
+
+  const numbers = [3, 1, 4, 1, 5, 9, 2, 6];
+  const sortableArray = numbers.map(n => new SortableNumber(n));
+
+  console.log(`\n📥 Input array: [${numbers.join(', ')}]`);
+
+  // Создание фабрики стратегий
+  const factory = new ConcreteSortingStrategyFactory<SortableNumber>();
+  const strategy = factory.createStrategy(StrategyType.DEFAULT);
+
+  // Создание наблюдателей
+  const statisticsObserver = new StatisticsObserver<SortableNumber>();
+  const historyObserver = new HistoryObserver<SortableNumber>();
+
+  // Использование Builder для создания сортировщика
+  const builder = new SorterBuilder<SortableNumber>();
+  const sorter = builder
+    .setArray(sortableArray)
+    .setStrategy(strategy)
+    .addObserver(statisticsObserver)
+    .addObserver(historyObserver)
+    .build();
+
+  // Использование Command для выполнения
+  const invoker = new CommandInvoker();
+  const sortingCommand = new ExecuteSortingCommand(sorter);
+  
+  invoker.enqueueCommand(sortingCommand);
+  const results = await invoker.executeAll();
+  
+  const sortedArray = results[0] as SortableNumber[];
+  
+  console.log('\n' + '─'.repeat(70));
+  console.log(`\n📊 Final sorted array: [${sortedArray.map(x => x.getValue()).join(', ')}]`);
+  
+  // Вывод статистики
+  setTimeout(() => {
+    console.log('\n' + '─'.repeat(70));
+    statisticsObserver.printStatistics();
+    historyObserver.printHistory();
+    console.log('\n' + '='.repeat(70));
+    console.log('✅ DEMONSTRATION COMPLETED');
+    console.log('='.repeat(70) + '\n');
+  }, 100);
+}
+
+/*
+ * Пример с использованием Template Method Pattern
+ */
+export async function demonstrateWithTemplateMethod(): Promise<void> {
+  const numbers = [5, 2, 8, 1, 9];
+  const sortableArray = numbers.map(n => new SortableNumber(n));
+
+  const runner = new LoggingSortingRunner<SortableNumber>();
+  const sortedArray = await runner.run(sortableArray, StrategyType.DEFAULT);
+  
+  console.log(`\n✅ Template Method result: [${sortedArray.map(x => x.getValue()).join(', ')}]`);
+}
+
+/*
+ * Пример с кастомной конфигурацией
+ */
+export async function demonstrateWithCustomConfig(): Promise<void> {
+  const numbers = [10, 5, 15, 3, 20];
+  const sortableArray = numbers.map(n => new SortableNumber(n));
+
+  // Обновление конфигурации через Command
+  const invoker = new CommandInvoker();
+  const configCommand = new UpdateConfigCommand({
+    logPrefix: '[SLEEP SORT] ',
+    showTimestamps: true
+  });
+
+  invoker.enqueueCommand(configCommand);
+
+  const factory = new ConcreteSortingStrategyFactory<SortableNumber>();
+  const strategy = factory.createStrategy(StrategyType.DEFAULT);
+
+  const sorter = new SorterBuilder<SortableNumber>()
+    .setArray(sortableArray)
+    .setStrategy(strategy)
+    .build();
+
+  const sortingCommand = new ExecuteSortingCommand(sorter);
+  invoker.enqueueCommand(sortingCommand);
+  
+  const results = await invoker.executeAll();
+  const sortedArray = results[1] as SortableNumber[];
+  
+  console.log(`\n✅ Custom config result: [${sortedArray.map(x => x.getValue()).join(', ')}]`);
+}
+
+// Запуск демонстрации только при прямом запуске файла
+if (typeof require !== 'undefined' && require.main === module) {
+  console.log('\n🎬 Starting demonstration...\n');
+  demonstrateSorting();
+
+  // Можно раскомментировать для других примеров:
+  // setTimeout(() => demonstrateWithTemplateMethod(), 6000);
+  // setTimeout(() => demonstrateWithCustomConfig(), 12000);
+}
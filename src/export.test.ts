@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import {
+  ClockType,
+  DefaultStrategy,
+  EventReplayer,
+  EventType,
+  JsonLinesEventExporter,
+  LogManager,
+  RecordedElement,
+  SortableNumber,
+  SorterBuilder,
+  SortingContext,
+  SortingEvent,
+  VirtualClockScheduler
+} from './index';
+
+LogManager.getInstance().silence();
+
+function withTempDir(run: (dir: string) => Promise<void>): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'best-sort-'));
+  return run(dir).finally(() => fs.rmSync(dir, { recursive: true, force: true }));
+}
+
+test('recorded events replay with the same order, elements and relative times', () =>
+  withTempDir(async dir => {
+    const file = path.join(dir, 'run.jsonl');
+    const exporter = new JsonLinesEventExporter<SortableNumber>(file);
+    const sorter = new SorterBuilder<SortableNumber>()
+      .setArray([30, 10, 20].map(value => new SortableNumber(value)))
+      .setStrategy(new DefaultStrategy<SortableNumber>())
+      .setConfig({ clock: ClockType.VIRTUAL, enableLogging: false })
+      .disableDefaultObservers()
+      .addObserver(exporter)
+      .build();
+    await sorter.execute();
+    await exporter.close();
+
+    const original = sorter.getEventHistory();
+    const replayer = new EventReplayer();
+    const events = await replayer.load(file);
+    assert.equal(events.length, original.length);
+
+    const clock = new VirtualClockScheduler(5000, false);
+    const context = new SortingContext<RecordedElement>('replay', clock);
+    const replayed: SortingEvent<RecordedElement>[] = [];
+    context.attach({ update: event => replayed.push(event) });
+
+    const replaying = replayer.replay(events, context, 2);
+    clock.advanceBy(10_000);
+    await replaying;
+
+    assert.deepEqual(replayed.map(event => event.type), original.map(event => event.type));
+    assert.deepEqual(
+      replayed.filter(event => event.element).map(event => event.element!.getValue()),
+      [10, 20, 30]
+    );
+    assert.ok(replayed[0].element === undefined && replayed[1].element instanceof RecordedElement);
+    const start = original[0].timestamp;
+    assert.deepEqual(
+      replayed.map(event => event.timestamp),
+      original.map(event => 5000 + (event.timestamp - start) / 2)
+    );
+    assert.equal(replayed.at(-1)?.metadata?.totalElements, 3);
+  })
+);
+
+test('close() rejects when the export file cannot be written', async () => {
+  const exporter = new JsonLinesEventExporter<SortableNumber>(path.join(os.tmpdir(), 'best-sort-missing', 'x', 'run.jsonl'));
+  exporter.update({ type: EventType.STARTED, timestamp: 0 });
+  await assert.rejects(exporter.close(), { code: 'ENOENT' });
+});
+
+test('close() leaves a caller-owned stream open', async () => {
+  const stream = new PassThrough();
+  const exporter = new JsonLinesEventExporter<SortableNumber>(stream);
+  exporter.update({ type: EventType.ELEMENT_SORTED, element: new SortableNumber(7), index: 0, timestamp: 12 });
+  await exporter.close();
+
+  assert.equal(stream.writableEnded, false);
+  assert.deepEqual(JSON.parse(String(stream.read())), {
+    type: EventType.ELEMENT_SORTED,
+    element: { value: 7, text: '7' },
+    index: 0,
+    timestamp: 12
+  });
+});
+
+test('load() rejects malformed recordings with the line number', async () => {
+  const replayer = new EventReplayer();
+  const started = JSON.stringify({ type: EventType.STARTED, timestamp: 0 });
+  await assert.rejects(replayer.load(Readable.from([`${started}\n\n{oops\n`])), /Invalid recording at line 3/);
+  await assert.rejects(replayer.load(Readable.from([`${started}\n{"type":"NOPE","timestamp":1}\n`])), /line 2: not a sorting event/);
+
+  const context = new SortingContext<RecordedElement>('replay', new VirtualClockScheduler());
+  await assert.rejects(replayer.replay([], context, 0), RangeError);
+});
@@ -0,0 +1,167 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ClockType,
+  ConfigurationManager,
+  DefaultStrategy,
+  DelayMapper,
+  DelayMappingType,
+  KeyedSortable,
+  KeyExtractor,
+  KeyExtractors,
+  LogManager,
+  RealTimeScheduler,
+  SortableNumber,
+  SorterBuilder,
+  SortingConfig,
+  SortOrder
+} from './index';
+
+LogManager.getInstance().silence();
+
+async function sortValues(values: number[], config: Partial<SortingConfig> = {}): Promise<number[]> {
+  const sorter = new SorterBuilder<SortableNumber>()
+    .setArray(values.map(value => new SortableNumber(value)))
+    .setStrategy(new DefaultStrategy<SortableNumber>())
+    .setConfig({ clock: ClockType.VIRTUAL, enableLogging: false, ...config })
+    .disableDefaultObservers()
+    .build();
+  const result = await sorter.execute();
+  return result.map(element => element.getValue());
+}
+
+async function sortKeyed<V>(values: V[], extractKey: KeyExtractor<V>): Promise<V[]> {
+  const sorter = SorterBuilder.forValues(values, extractKey)
+    .setStrategy(new DefaultStrategy<KeyedSortable<V>>())
+    .setConfig({ clock: ClockType.VIRTUAL, enableLogging: false })
+    .disableDefaultObservers()
+    .build();
+  return KeyedSortable.unwrap(await sorter.execute());
+}
+
+function mapperFor(values: number[], config: Partial<SortingConfig> = {}): DelayMapper {
+  return new DelayMapper(ConfigurationManager.getInstance().createScopedConfig(config), values);
+}
+
+test('default mapping sorts negative values', async () => {
+  assert.deepEqual(await sortValues([-2, -5, 1]), [-5, -2, 1]);
+});
+
+test('default mapping sorts fractional values', async () => {
+  assert.deepEqual(await sortValues([1.4, 1.2, -0.5, 1.25]), [-0.5, 1.2, 1.25, 1.4]);
+});
+
+test('default mapping sorts huge values', async () => {
+  assert.deepEqual(await sortValues([3e9, 2.5e9, -4e12, 9e15]), [-4e12, 2.5e9, 3e9, 9e15]);
+  assert.deepEqual(await sortValues([Number.MAX_VALUE, -Number.MAX_VALUE, 0]), [-Number.MAX_VALUE, 0, Number.MAX_VALUE]);
+});
+
+test('default mapping sorts negative values in descending order', async () => {
+  assert.deepEqual(await sortValues([-2, -5, 1], { order: SortOrder.DESCENDING }), [1, -2, -5]);
+});
+
+test('descending order sorts large values of the same sign', async () => {
+  const values = [1e308, 1.7e308, 1.5e308];
+  const expected = [1.7e308, 1.5e308, 1e308];
+  for (const delayMapping of Object.values(DelayMappingType)) {
+    assert.deepEqual(await sortValues(values, { order: SortOrder.DESCENDING, delayMapping }), expected, delayMapping);
+  }
+  assert.deepEqual(await sortValues([-1e308, -1.7e308, -1.5e308], { order: SortOrder.DESCENDING }), [-1e308, -1.5e308, -1.7e308]);
+});
+
+test('default mapping keeps delays within baseDelayMs', () => {
+  const values = [-1e12, 0.5, 7, 1e15, Number.MAX_VALUE];
+  const mapper = mapperFor(values, { baseDelayMs: 250 });
+  values.forEach(value => {
+    const delay = mapper.map(value);
+    assert.ok(delay >= 0 && delay <= 250, `delay ${delay} for ${value}`);
+  });
+  assert.equal(mapper.map(-1e12), 0);
+  assert.equal(mapper.map(Number.MAX_VALUE), 250);
+});
+
+test('key extractors sort strings, dates and objects', async () => {
+  assert.deepEqual(await sortKeyed(['pear', 'apple', 'fig'], KeyExtractors.string()), ['apple', 'fig', 'pear']);
+
+  const dates = [new Date('2024-01-01'), new Date('2020-05-01'), new Date('2022-01-01')];
+  assert.deepEqual(await sortKeyed(dates, KeyExtractors.date()), [dates[1], dates[2], dates[0]]);
+
+  const people = [{ name: 'Ann', age: 31 }, { name: 'Bob', age: 27 }];
+  assert.deepEqual(await sortKeyed(people, KeyExtractors.property('age')), [people[1], people[0]]);
+});
+
+test('logarithmic mapping sorts ranges wider than Number.MAX_VALUE', async () => {
+  const config = { delayMapping: DelayMappingType.LOGARITHMIC };
+  assert.deepEqual(await sortValues([-1.7e308, 1.7e308, 0], config), [-1.7e308, 0, 1.7e308]);
+
+  const mapper = mapperFor([-1.7e308, 1.7e308, 0], { ...config, baseDelayMs: 100 });
+  const delays = [-1.7e308, 0, 1.7e308].map(value => mapper.map(value));
+  assert.ok(delays.every(Number.isFinite), `${delays}`);
+  assert.ok(delays[0] < delays[1] && delays[1] < delays[2] && delays[2] <= 101, `${delays}`);
+});
+
+test('ranked key extractor orders strings exactly', async () => {
+  const words = ['pear', 'peach', 'pea', 'pear'];
+  assert.deepEqual(await sortKeyed(words, KeyExtractors.ranked(words)), ['pea', 'peach', 'pear', 'pear']);
+
+  const people = [{ name: 'Bea' }, { name: 'Ann' }, { name: 'Ann' }];
+  const byName = KeyExtractors.ranked(people, (a, b) => a.name.localeCompare(b.name));
+  assert.deepEqual(people.map(byName), [1, 0, 0]);
+  assert.throws(() => byName({ name: 'Ann' }), RangeError);
+});
+
+test('offset mapping sorts negative values', async () => {
+  assert.deepEqual(await sortValues([-2, -5, 1], { delayMapping: DelayMappingType.OFFSET }), [-5, -2, 1]);
+});
+
+test('linear mapping rejects negative values', async () => {
+  assert.throws(() => mapperFor([-2, 1], { delayMapping: DelayMappingType.LINEAR }), RangeError);
+  await assert.rejects(sortValues([-2, -5, 1], { delayMapping: DelayMappingType.LINEAR }), RangeError);
+});
+
+test('non-finite values are rejected', () => {
+  assert.throws(() => mapperFor([1, Infinity]), RangeError);
+  assert.throws(() => mapperFor([NaN]), RangeError);
+});
+
+test('real-time scheduler waits out delays beyond the setTimeout limit', () => {
+  mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+  try {
+    const scheduler = new RealTimeScheduler();
+    const fired: number[] = [];
+    [3e9, 2.5e9, 5].forEach(delay => scheduler.schedule(() => fired.push(delay), delay));
+    scheduler.cancel(scheduler.schedule(() => fired.push(-1), 4e9));
+
+    mock.timers.tick(2 ** 31);
+    assert.deepEqual(fired, [5]);
+    mock.timers.tick(5e9);
+    assert.deepEqual(fired, [5, 2.5e9, 3e9]);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('default mapping sorts close values on the real clock', async () => {
+  mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+  // Как Node, поднимаем задержки меньше 1 мс до 1 мс
+  const mockedSetTimeout = globalThis.setTimeout;
+  const clamped = (callback: () => void, delay?: number) => mockedSetTimeout(callback, Math.max(1, delay ?? 0));
+  globalThis.setTimeout = clamped as typeof setTimeout;
+  try {
+    for (const values of [[30, 20, 10000], [1, 0, 1000], [0.3, 0.1, 0.2, 5000]]) {
+      const result = sortValues(values, { clock: ClockType.REAL });
+      mock.timers.tick(2000);
+      assert.deepEqual(await result, [...values].sort((a, b) => a - b));
+    }
+  } finally {
+    globalThis.setTimeout = mockedSetTimeout;
+    mock.timers.reset();
+  }
+});
+
+test('distinct values get delays at least 1 ms apart', () => {
+  const values = [30, 20, 10000, 20.0000001];
+  const delays = values.map(value => mapperFor(values).map(value)).sort((a, b) => a - b);
+  delays.slice(1).forEach((delay, i) => assert.ok(delay - delays[i] >= 1, `${delays[i]} and ${delay}`));
+  assert.equal(mapperFor([5, 5]).map(5), 0);
+});
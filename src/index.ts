@@ -1,7 +1,13 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { Readable } from 'stream';
+import { Worker } from 'worker_threads';
+
 /*
  * Интерфейс для элемента, который можно сортировать
  */
-interface ISortable {
+export interface ISortable {
   getValue(): number;
   toString(): string;
 }
@@ -9,14 +15,14 @@ interface ISortable {
 /*
  * Интерфейс наблюдателя для паттерна Observer
  */
-interface IObserver<T> {
+export interface IObserver<T> {
   update(event: SortingEvent<T>): void;
 }
 
 /*
  * Интерфейс субъекта для паттерна Observer
  */
-interface ISubject<T> {
+export interface ISubject<T> {
   attach(observer: IObserver<T>): void;
   detach(observer: IObserver<T>): void;
   notify(event: SortingEvent<T>): void;
@@ -25,30 +31,59 @@ interface ISubject<T> {
 /*
  * Типы событий сортировки
  */
-enum EventType {
+export enum EventType {
   STARTED = 'STARTED',
   ELEMENT_SORTED = 'ELEMENT_SORTED',
   COMPLETED = 'COMPLETED',
-  ERROR = 'ERROR'
+  ERROR = 'ERROR',
+  INVERSION_DETECTED = 'INVERSION_DETECTED',
+  CANCELLED = 'CANCELLED',
+  PAUSED = 'PAUSED',
+  RESUMED = 'RESUMED',
+  STEPPED = 'STEPPED',
+  COMPARE = 'COMPARE',
+  SWAP = 'SWAP',
+  WRITE = 'WRITE',
+  PARTITION = 'PARTITION',
+  PASS_COMPLETED = 'PASS_COMPLETED'
 }
 
 /*
  * Интерфейс события сортировки
  */
-interface SortingEvent<T> {
+export interface SortingEvent<T> {
   type: EventType;
   element?: T;
   index?: number;
+  indices?: number[];
+  changes?: ArrayChange[];
+  snapshot?: number[];
   timestamp: number;
   delay?: number;
   metadata?: Record<string, any>;
 }
 
+/*
+ * Изменение одной позиции рабочего массива
+ */
+export interface ArrayChange {
+  index: number;
+  value: number;
+}
+
+/*
+ * Элемент вместе с его позицией во входном массиве
+ */
+export interface IndexedElement<T> {
+  element: T;
+  index: number;
+}
+
 /*
  * Интерфейс стратегии сортировки
  */
-interface ISortingStrategy<T extends ISortable> {
-  sort(array: T[], context: SortingContext<T>): Promise<T[]>;
+export interface ISortingStrategy<T extends ISortable> {
+  sort(array: T[], context: SortingContext<T>, signal?: AbortSignal): Promise<T[]>;
   getName(): string;
   getDescription(): string;
 }
@@ -56,34 +91,259 @@ interface ISortingStrategy<T extends ISortable> {
 /*
  * Интерфейс для фабрики стратегий
  */
-interface ISortingStrategyFactory<T extends ISortable> {
-  createStrategy(type: StrategyType): ISortingStrategy<T>;
-  registerStrategy(type: StrategyType, strategy: ISortingStrategy<T>): void;
-  listAvailableStrategies(): string[];
+export interface ISortingStrategyFactory<T extends ISortable> {
+  createStrategy(id: string): ISortingStrategy<T>;
+  registerStrategy(id: string, strategy: ISortingStrategy<T>, traits?: Partial<StrategyTraits>): void;
+  listAvailableStrategies(): StrategyMetadata[];
+}
+
+/*
+ * Свойства алгоритма, которые нельзя получить из самой стратегии
+ */
+export interface StrategyTraits {
+  stable: boolean;
+  complexity: string;
+  timeBased: boolean;
+}
+
+/*
+ * Описание зарегистрированной стратегии
+ */
+export interface StrategyMetadata extends StrategyTraits {
+  id: string;
+  name: string;
+  description: string;
+}
+
+/*
+ * Интерфейс подключаемого модуля со стратегиями.
+ * Модуль экспортирует его по умолчанию или под именем plugin.
+ */
+export interface IStrategyPlugin<T extends ISortable> {
+  name: string;
+  register(factory: ISortingStrategyFactory<T>): void;
+}
+
+/*
+ * Параметры запуска сортировки
+ */
+export interface ExecuteOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/*
+ * Параметры выполнения стратегии в рабочем потоке (worker_threads).
+ * Экземпляр стратегии нельзя передать в поток, поэтому поток создаёт
+ * её заново по идентификатору из ConcreteSortingStrategyFactory.
+ */
+export interface WorkerExecutionOptions {
+  strategyId: string;
+  plugins?: string[];       // Модули со стратегиями, загружаемые в потоке
+  workerScript?: string;    // По умолчанию worker.js рядом с этим модулем
+}
+
+/*
+ * Данные, передаваемые рабочему потоку
+ */
+export interface SortingWorkerData {
+  strategyId: string;
+  plugins: string[];
+  config: SortingConfig;
+  elements: SerializedElement[];
+}
+
+/*
+ * Событие контекста рабочего потока с индексом элемента во входном массиве
+ */
+export interface ForwardedSortingEvent {
+  event: SerializedSortingEvent;
+  elementIndex?: number;
 }
 
+/*
+ * Сообщения рабочего потока: пачка событий в порядке их возникновения,
+ * итоговый порядок индексов или ошибка
+ */
+export type SortingWorkerMessage =
+  | { type: 'events'; events: ForwardedSortingEvent[] }
+  | { type: 'result'; order: number[] }
+  | { type: 'error'; name: string; message: string };
+
 /*
  * Типы стратегий сортировки
  */
-enum StrategyType {
-  DEFAULT = 'DEFAULT'
+export enum StrategyType {
+  DEFAULT = 'DEFAULT',
+  MERGE = 'MERGE',
+  QUICK = 'QUICK',
+  HEAP = 'HEAP',
+  INSERTION = 'INSERTION',
+  COUNTING = 'COUNTING',
+  RADIX = 'RADIX',
+  BOGO = 'BOGO',
+  STOOGE = 'STOOGE'
+}
+
+/*
+ * Типы часов, по которым планируются отложенные задачи
+ */
+export enum ClockType {
+  REAL = 'REAL',
+  VIRTUAL = 'VIRTUAL'
+}
+
+/*
+ * Способы преобразования значения элемента в задержку
+ */
+export enum DelayMappingType {
+  LINEAR = 'LINEAR',
+  OFFSET = 'OFFSET',
+  NORMALIZED = 'NORMALIZED',
+  LOGARITHMIC = 'LOGARITHMIC'
+}
+
+/*
+ * Порядок сортировки
+ */
+export enum SortOrder {
+  ASCENDING = 'ASCENDING',
+  DESCENDING = 'DESCENDING'
+}
+
+/*
+ * Способы преобразования строки в числовой ключ
+ */
+export enum StringKeyMapping {
+  LEXICOGRAPHIC = 'LEXICOGRAPHIC',
+  LENGTH = 'LENGTH'
+}
+
+/*
+ * Функция извлечения числового ключа из произвольного значения
+ */
+export type KeyExtractor<V> = (value: V) => number;
+
+/*
+ * Дескриптор запланированной задачи
+ */
+export interface ScheduledTask {
+  readonly id: number;
+  readonly dueTime: number;
+}
+
+/*
+ * Интерфейс планировщика отложенных задач
+ */
+export interface IScheduler {
+  now(): number;
+  schedule(callback: () => void, delayMs: number): ScheduledTask;
+  cancel(task: ScheduledTask): void;
 }
 
 /*
  * Конфигурация сортировки
  */
-interface SortingConfig {
+export interface SortingConfig {
   baseDelayMs: number;
   enableLogging: boolean;
   logPrefix: string;
   showTimestamps: boolean;
   colorize: boolean;
+  clock: ClockType;
+  delayMapping: DelayMappingType;
+  delayScale: number;
+  verifyOrder: boolean;
+  repairInversions: boolean;
+  maxRepairPasses: number;
+  stable: boolean;
+  order: SortOrder;
+}
+
+/*
+ * Ошибка прерывания сортировки через AbortSignal или по таймауту
+ */
+export class SortingAbortedError extends Error {
+  constructor(
+    readonly placedCount: number,
+    readonly reason?: unknown
+  ) {
+    super(
+      `Sorting aborted after placing ${placedCount} element(s)` +
+      (reason instanceof Error ? `: ${reason.message}` : '')
+    );
+    this.name = 'SortingAbortedError';
+  }
+
+  isTimeout(): boolean {
+    return this.reason instanceof SortingTimeoutError;
+  }
+}
+
+/*
+ * Ошибка проверки входного массива
+ */
+export class ArrayValidationError extends TypeError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArrayValidationError';
+  }
+}
+
+/*
+ * Ошибка повторной регистрации стратегии с тем же идентификатором
+ */
+export class DuplicateStrategyError extends Error {
+  constructor(readonly strategyId: string) {
+    super(`Strategy '${strategyId}' is already registered`);
+    this.name = 'DuplicateStrategyError';
+  }
+}
+
+/*
+ * Ошибка загрузки модуля со стратегиями
+ */
+export class StrategyPluginError extends Error {
+  constructor(readonly modulePath: string, message: string) {
+    super(`Cannot load strategy plugin '${modulePath}': ${message}`);
+    this.name = 'StrategyPluginError';
+  }
+}
+
+/*
+ * Ошибка пакета команд; выполненные команды пакета уже отменены
+ */
+export class BatchExecutionError extends Error {
+  constructor(
+    readonly failedCommand: ICommand,
+    readonly cause: unknown,
+    readonly rolledBack: number,
+    readonly rollbackErrors: unknown[] = []
+  ) {
+    super(
+      `Batch failed at '${failedCommand.getDescription()}'` +
+      (cause instanceof Error ? `: ${cause.message}` : '') +
+      `; rolled back ${rolledBack} command(s)` +
+      (rollbackErrors.length > 0 ? `, ${rollbackErrors.length} rollback(s) failed` : '')
+    );
+    this.name = 'BatchExecutionError';
+  }
+}
+
+/*
+ * Причина прерывания при превышении времени выполнения
+ */
+export class SortingTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Sorting timed out after ${timeoutMs}ms`);
+    this.name = 'SortingTimeoutError';
+  }
 }
 
 /*
  * Обёртка для числового значения с поддержкой сортировки
  */
-class SortableNumber implements ISortable {
+export class SortableNumber implements ISortable {
   constructor(private readonly value: number) {}
 
   getValue(): number {
@@ -100,646 +360,4327 @@ class SortableNumber implements ISortable {
 }
 
 /*
- * Синглтон для управления глобальной конфигурацией
+ * Адаптер, делающий сортируемым любое значение с помощью извлекателя ключа
  */
-class ConfigurationManager {
-  private static instance: ConfigurationManager;
-  private config: SortingConfig;
+export class KeyedSortable<V> implements ISortable {
+  constructor(
+    private readonly value: V,
+    private readonly extractKey: KeyExtractor<V>
+  ) {}
 
-  private constructor() {
-    this.config = {
-      baseDelayMs: 1000,
-      enableLogging: true,
-      logPrefix: '🎯',
-      showTimestamps: false,
-      colorize: true
-    };
+  static wrap<V>(values: V[], extractKey: KeyExtractor<V>): KeyedSortable<V>[] {
+    return values.map(value => new KeyedSortable(value, extractKey));
   }
 
-  static getInstance(): ConfigurationManager {
-    if (!ConfigurationManager.instance) {
-      ConfigurationManager.instance = new ConfigurationManager();
-    }
-    return ConfigurationManager.instance;
+  static unwrap<V>(sortables: KeyedSortable<V>[]): V[] {
+    return sortables.map(sortable => sortable.getOriginal());
   }
 
-  getConfig(): Readonly<SortingConfig> {
-    return Object.freeze({ ...this.config });
+  getValue(): number {
+    return this.extractKey(this.value);
   }
 
-  updateConfig(partial: Partial<SortingConfig>): void {
-    this.config = { ...this.config, ...partial };
+  getOriginal(): V {
+    return this.value;
   }
 
-  resetToDefaults(): void {
-    this.config = {
-      baseDelayMs: 1000,
-      enableLogging: true,
-      logPrefix: '🎯',
-      showTimestamps: false,
-      colorize: true
-    };
+  toString(): string {
+    return `${this.value}`;
   }
 }
 
 /*
- * Декоратор для измерения времени выполнения метода
+ * Готовые извлекатели ключей для распространённых типов
  */
-function Measure(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
-  const originalMethod = descriptor.value;
+export class KeyExtractors {
+  static date(): KeyExtractor<Date> {
+    return date => date.getTime();
+  }
 
-  descriptor.value = function (...args: any[]) {
-    const start = performance.now();
-    const result = originalMethod.apply(this, args);
-    
-    if (result && typeof result.then === 'function') {
-      return result.then((res: any) => {
-        const end = performance.now();
-        console.log(`${propertyKey} completed in ${(end - start).toFixed(2)}ms`);
-        return res;
-      });
+  // Значения за пределами Number.MAX_SAFE_INTEGER теряют точность
+  static bigint(): KeyExtractor<bigint> {
+    return value => Number(value);
+  }
+
+  /*
+   * LEXICOGRAPHIC кодирует первые три UTF-16 символа в одно число,
+   * поэтому строки с общим трёхсимвольным префиксом считаются равными
+   */
+  static string(mapping: StringKeyMapping = StringKeyMapping.LEXICOGRAPHIC): KeyExtractor<string> {
+    if (mapping === StringKeyMapping.LENGTH) {
+      return value => value.length;
     }
-    
-    const end = performance.now();
-    console.log(`${propertyKey} executed in ${(end - start).toFixed(2)}ms`);
-    return result;
-  };
+    return value => {
+      let key = 0;
+      for (let i = 0; i < 3; i++) {
+        key = key * 0x10000 + (i < value.length ? value.charCodeAt(i) : 0);
+      }
+      return key;
+    };
+  }
 
-  return descriptor;
+  /*
+   * Ранги значений из заданного набора по компаратору: ключ - позиция
+   * значения в упорядоченном наборе, равные значения получают один ранг.
+   * В отличие от string() порядок строк точный. Значения вне набора
+   * отклоняются.
+   */
+  static ranked<V>(
+    values: V[],
+    compare: (a: V, b: V) => number = (a, b) => (a < b ? -1 : a > b ? 1 : 0)
+  ): KeyExtractor<V> {
+    const ranks: Map<V, number> = new Map();
+    let rank = -1;
+    [...values].sort(compare).forEach((value, i, ordered) => {
+      if (i === 0 || compare(ordered[i - 1], value) !== 0) {
+        rank++;
+      }
+      ranks.set(value, rank);
+    });
+
+    return value => {
+      const rank = ranks.get(value);
+      if (rank === undefined) {
+        throw new RangeError(`Value ${String(value)} is not in the ranked set`);
+      }
+      return rank;
+    };
+  }
+
+  static property<V, K extends keyof V>(
+    name: K,
+    extractKey: KeyExtractor<V[K]> = value => Number(value)
+  ): KeyExtractor<V> {
+    return value => extractKey(value[name]);
+  }
 }
 
 /*
- * Декоратор для логирования вызовов методов
+ * Описание допустимых значений одного параметра конфигурации
  */
-function Log(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
-  const originalMethod = descriptor.value;
-
-  descriptor.value = function (...args: any[]) {
-    const config = ConfigurationManager.getInstance().getConfig();
-    if (config.enableLogging) {
-      console.log(`Calling ${propertyKey} with ${args.length} argument(s)`);
-    }
-    return originalMethod.apply(this, args);
-  };
+export type ConfigFieldSchema =
+  | { type: 'number'; min: number; max: number; integer?: boolean; exclusiveMin?: boolean }
+  | { type: 'boolean' }
+  | { type: 'string'; maxLength: number }
+  | { type: 'enum'; values: readonly string[] };
 
-  return descriptor;
-}
+/*
+ * Схема конфигурации сортировки
+ */
+export const CONFIG_SCHEMA: { readonly [K in keyof SortingConfig]: ConfigFieldSchema } = {
+  baseDelayMs: { type: 'number', min: 0, max: 3_600_000 },
+  enableLogging: { type: 'boolean' },
+  logPrefix: { type: 'string', maxLength: 64 },
+  showTimestamps: { type: 'boolean' },
+  colorize: { type: 'boolean' },
+  clock: { type: 'enum', values: Object.values(ClockType) },
+  delayMapping: { type: 'enum', values: Object.values(DelayMappingType) },
+  delayScale: { type: 'number', min: 0, max: 1_000_000, exclusiveMin: true },
+  verifyOrder: { type: 'boolean' },
+  repairInversions: { type: 'boolean' },
+  maxRepairPasses: { type: 'number', min: 1, max: 100_000, integer: true },
+  stable: { type: 'boolean' },
+  order: { type: 'enum', values: Object.values(SortOrder) }
+};
+
+const DEFAULT_CONFIG: Readonly<SortingConfig> = Object.freeze({
+  baseDelayMs: 1000,
+  enableLogging: true,
+  logPrefix: '🎯',
+  showTimestamps: false,
+  colorize: true,
+  clock: ClockType.REAL,
+  delayMapping: DelayMappingType.NORMALIZED,
+  delayScale: 1,
+  verifyOrder: false,
+  repairInversions: false,
+  maxRepairPasses: 10,
+  stable: false,
+  order: SortOrder.ASCENDING
+});
 
 /*
- * Декоратор для валидации аргументов
+ * Префикс переменных окружения с настройками
  */
-function ValidateArray(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
-  const originalMethod = descriptor.value;
+const ENV_PREFIX = 'BEST_SORT_';
 
-  descriptor.value = function (...args: any[]) {
-    const array = args[0];
-    if (!Array.isArray(array)) {
-      throw new TypeError(`${propertyKey} expects an array as first argument`);
-    }
-    if (array.length === 0) {
-      throw new Error(`${propertyKey} cannot work with empty array`);
-    }
-    return originalMethod.apply(this, args);
-  };
+/*
+ * Переменная окружения с путём к файлу конфигурации
+ */
+const ENV_CONFIG_FILE = `${ENV_PREFIX}CONFIG`;
 
-  return descriptor;
+/*
+ * Ошибка проверки конфигурации по схеме
+ */
+export class ConfigValidationError extends Error {
+  constructor(readonly source: string, readonly issues: string[]) {
+    super(`Invalid configuration from ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
 }
 
 /*
- * Контекст сортировки, реализующий паттерн Subject
+ * Значение параметра конфигурации вместе с его источником
  */
-class SortingContext<T extends ISortable> implements ISubject<T> {
-  private observers: Set<IObserver<T>> = new Set();
-  private eventHistory: SortingEvent<T>[] = [];
-  private elementCount: number = 0;
-
-  constructor(private strategyName: string) {}
+export interface ConfigEntry {
+  key: keyof SortingConfig;
+  value: SortingConfig[keyof SortingConfig];
+  source: string;
+}
 
-  attach(observer: IObserver<T>): void {
-    this.observers.add(observer);
+/*
+ * Проверка одного значения по схеме. Возвращает описание
+ * проблемы или undefined, если значение допустимо.
+ */
+function describeConfigIssue(key: string, value: unknown): string | undefined {
+  const schema: ConfigFieldSchema | undefined = (CONFIG_SCHEMA as Record<string, ConfigFieldSchema>)[key];
+  if (!schema) {
+    return `unknown setting '${key}'`;
   }
 
-  detach(observer: IObserver<T>): void {
-    this.observers.delete(observer);
-  }
+  const got = `got ${JSON.stringify(value)}`;
+  switch (schema.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${key} must be a number, ${got}`;
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        return `${key} must be an integer, ${got}`;
+      }
+      if (schema.exclusiveMin && (value <= schema.min || value > schema.max)) {
+        return `${key} must be greater than ${schema.min} and at most ${schema.max}, ${got}`;
+      }
+      if (value < schema.min || value > schema.max) {
+        return `${key} must be between ${schema.min} and ${schema.max}, ${got}`;
+      }
+      return undefined;
 
-  notify(event: SortingEvent<T>): void {
-    this.eventHistory.push(event);
-    this.observers.forEach(observer => observer.update(event));
-  }
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : `${key} must be true or false, ${got}`;
 
-  emitStarted(): void {
-    const event: SortingEvent<T> = {
-      type: EventType.STARTED,
-      timestamp: Date.now(),
-      metadata: { strategy: this.strategyName }
-    };
-    this.notify(event);
+    case 'string':
+      if (typeof value !== 'string') {
+        return `${key} must be a string, ${got}`;
+      }
+      return value.length <= schema.maxLength
+        ? undefined
+        : `${key} must be at most ${schema.maxLength} characters long, ${got}`;
+
+    case 'enum':
+      return schema.values.includes(value as string)
+        ? undefined
+        : `${key} must be one of ${schema.values.join(', ')}, ${got}`;
   }
+}
 
-  emitElementSorted(element: T, index: number, delay: number): void {
-    this.elementCount++;
-    const event: SortingEvent<T> = {
-      type: EventType.ELEMENT_SORTED,
-      element,
-      index,
-      timestamp: Date.now(),
-      delay,
-      metadata: { totalSorted: this.elementCount }
-    };
-    this.notify(event);
+/*
+ * Проверка частичной конфигурации по схеме
+ */
+export function validateConfig(input: unknown, source: string = 'code'): Partial<SortingConfig> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new ConfigValidationError(source, ['configuration must be an object']);
   }
 
-  emitCompleted(): void {
-    const event: SortingEvent<T> = {
-      type: EventType.COMPLETED,
-      timestamp: Date.now(),
-      metadata: { 
-        strategy: this.strategyName,
-        totalElements: this.elementCount
-      }
-    };
-    this.notify(event);
-  }
+  const issues = Object.entries(input)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => describeConfigIssue(key, value))
+    .filter((issue): issue is string => issue !== undefined);
 
-  emitError(error: Error): void {
-    const event: SortingEvent<T> = {
-      type: EventType.ERROR,
-      timestamp: Date.now(),
-      metadata: { error: error.message }
-    };
-    this.notify(event);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(source, issues);
   }
 
-  getEventHistory(): SortingEvent<T>[] {
-    return [...this.eventHistory];
-  }
+  return input as Partial<SortingConfig>;
+}
 
-  getElementCount(): number {
-    return this.elementCount;
-  }
+/*
+ * Имя переменной окружения для параметра: baseDelayMs -> BEST_SORT_BASE_DELAY_MS
+ */
+function toEnvName(key: string): string {
+  return ENV_PREFIX + key.replace(/([A-Z])/g, '_$1').toUpperCase();
+}
 
-  getStrategyName(): string {
-    return this.strategyName;
+/*
+ * Приведение строки из окружения к типу параметра. Непригодные
+ * значения возвращаются как есть, чтобы о них сообщила проверка.
+ */
+function parseEnvValue(schema: ConfigFieldSchema, raw: string): unknown {
+  const trimmed = raw.trim();
+  switch (schema.type) {
+    case 'number':
+      return trimmed !== '' && Number.isFinite(Number(trimmed)) ? Number(trimmed) : raw;
+    case 'boolean':
+      if (['true', '1', 'yes', 'on'].includes(trimmed.toLowerCase())) return true;
+      if (['false', '0', 'no', 'off'].includes(trimmed.toLowerCase())) return false;
+      return raw;
+    case 'enum':
+      return trimmed.toUpperCase();
+    case 'string':
+    default:
+      return raw;
   }
 }
 
 /*
- * Наблюдатель для логирования событий в консоль
+ * Синглтон для управления глобальной конфигурацией
  */
-class ConsoleLoggingObserver<T extends ISortable> implements IObserver<T> {
-  private config = ConfigurationManager.getInstance().getConfig();
-
-  update(event: SortingEvent<T>): void {
-    if (!this.config.enableLogging) return;
+export class ConfigurationManager {
+  private static instance: ConfigurationManager;
+  private config: SortingConfig;
+  private sources: Record<keyof SortingConfig, string>;
 
-    const timestamp = this.config.showTimestamps 
-      ? `[${new Date(event.timestamp).toISOString()}] ` 
-      : '';
+  private constructor() {
+    this.config = { ...DEFAULT_CONFIG };
+    this.sources = this.createDefaultSources();
+  }
 
-    switch (event.type) {
-      case EventType.STARTED:
-        console.log(`\n${this.config.logPrefix} ${timestamp}Sorting started: ${event.metadata?.strategy}`);
-        break;
+  static getInstance(): ConfigurationManager {
+    if (!ConfigurationManager.instance) {
+      ConfigurationManager.instance = new ConfigurationManager();
+    }
+    return ConfigurationManager.instance;
+  }
 
-      case EventType.ELEMENT_SORTED:
-        const delayInfo = event.delay ? ` (delay: ${event.delay}ms)` : '';
-        console.log(`${this.config.logPrefix} ${timestamp}Element ${event.element?.getValue()} added to result${delayInfo}`);
-        break;
+  getConfig(): Readonly<SortingConfig> {
+    return Object.freeze({ ...this.config });
+  }
 
-      case EventType.COMPLETED:
-        console.log(`${this.config.logPrefix} ${timestamp}Sorting completed: ${event.metadata?.totalElements} elements\n`);
-        break;
+  updateConfig(partial: Partial<SortingConfig>, source: string = 'code'): void {
+    const valid = validateConfig(partial, source);
+    this.config = { ...this.config, ...valid };
+    (Object.keys(valid) as Array<keyof SortingConfig>)
+      .filter(key => valid[key] !== undefined)
+      .forEach(key => {
+        this.sources[key] = source;
+      });
+  }
 
-      case EventType.ERROR:
-        console.error(`${this.config.logPrefix} ${timestamp}Error: ${event.metadata?.error}`);
-        break;
+  /*
+   * Конфигурация отдельного сортировщика: текущие глобальные
+   * значения, переопределённые переданными. Глобальная конфигурация
+   * при этом не меняется.
+   */
+  createScopedConfig(overrides: Partial<SortingConfig> = {}): Readonly<SortingConfig> {
+    return Object.freeze({ ...this.config, ...validateConfig(overrides) });
+  }
+
+  /*
+   * Загрузка конфигурации из JSON-файла
+   */
+  loadFromFile(filePath: string): this {
+    const source = `file ${filePath}`;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new ConfigValidationError(source, [(error as Error).message]);
+    }
+
+    this.updateConfig(validateConfig(parsed, source), source);
+    return this;
+  }
+
+  /*
+   * Загрузка конфигурации из переменных окружения BEST_SORT_*
+   */
+  loadFromEnvironment(env: NodeJS.ProcessEnv = process.env): this {
+    const partial: Record<string, unknown> = {};
+    const issues: string[] = [];
+    const knownNames = new Set([ENV_CONFIG_FILE]);
+
+    (Object.keys(CONFIG_SCHEMA) as Array<keyof SortingConfig>).forEach(key => {
+      const name = toEnvName(key);
+      knownNames.add(name);
+
+      const raw = env[name];
+      if (raw === undefined) return;
+
+      const value = parseEnvValue(CONFIG_SCHEMA[key], raw);
+      const issue = describeConfigIssue(key, value);
+      if (issue) {
+        issues.push(`${name}: ${issue}`);
+      } else {
+        partial[key] = value;
+      }
+    });
+
+    Object.keys(env)
+      .filter(name => name.startsWith(ENV_PREFIX) && !knownNames.has(name))
+      .forEach(name => issues.push(`${name}: unknown setting`));
+
+    if (issues.length > 0) {
+      throw new ConfigValidationError('environment', issues);
+    }
+
+    (Object.keys(partial) as Array<keyof SortingConfig>).forEach(key => {
+      this.updateConfig({ [key]: partial[key] }, `env ${toEnvName(key)}`);
+    });
+    return this;
+  }
+
+  /*
+   * Загрузка в порядке приоритета: значения по умолчанию, файл
+   * (явно указанный или из BEST_SORT_CONFIG), переменные окружения
+   */
+  load(options: { file?: string; env?: NodeJS.ProcessEnv } = {}): this {
+    const env = options.env ?? process.env;
+    const file = options.file ?? env[ENV_CONFIG_FILE];
+
+    if (file) {
+      this.loadFromFile(file);
     }
+    return this.loadFromEnvironment(env);
+  }
+
+  /*
+   * Действующие значения с указанием, откуда каждое из них взято
+   */
+  describeConfig(): ConfigEntry[] {
+    return (Object.keys(CONFIG_SCHEMA) as Array<keyof SortingConfig>).map(key => ({
+      key,
+      value: this.config[key],
+      source: this.sources[key]
+    }));
+  }
+
+  printConfig(): void {
+    const entries = this.describeConfig();
+    const width = Math.max(...entries.map(entry => entry.key.length));
+
+    const logger = getLogger();
+    logger.info('\n⚙️  Effective Configuration:');
+    entries.forEach(({ key, value, source }) => {
+      logger.info(`   ${key.padEnd(width)}  ${JSON.stringify(value)}  (${source})`, { key, value, source });
+    });
+  }
+
+  resetToDefaults(): void {
+    this.config = { ...DEFAULT_CONFIG };
+    this.sources = this.createDefaultSources();
+  }
+
+  private createDefaultSources(): Record<keyof SortingConfig, string> {
+    const sources = {} as Record<keyof SortingConfig, string>;
+    (Object.keys(DEFAULT_CONFIG) as Array<keyof SortingConfig>).forEach(key => {
+      sources[key] = 'default';
+    });
+    return sources;
   }
 }
 
 /*
- * Наблюдатель для сбора статистики
+ * Наибольшая задержка одного setTimeout; большие значения Node
+ * заменяет на 1 мс
  */
-class StatisticsObserver<T extends ISortable> implements IObserver<T> {
-  private startTime: number = 0;
-  private endTime: number = 0;
-  private sortedElements: number = 0;
-  private totalDelay: number = 0;
-  private events: Map<EventType, number> = new Map();
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
 
-  update(event: SortingEvent<T>): void {
-    const currentCount = this.events.get(event.type) || 0;
-    this.events.set(event.type, currentCount + 1);
+/*
+ * Планировщик на реальных таймерах. Задачи хранятся в очереди по сроку,
+ * а setTimeout ставится только на ближайшую: setTimeout поднимает
+ * задержки меньше 1 мс до 1 мс, и таймеры с близкими сроками
+ * срабатывали бы в порядке планирования. Задачи с одинаковым сроком
+ * выполняются в порядке планирования. Сроки дальше MAX_TIMEOUT_MS
+ * ожидаются цепочкой таймеров.
+ */
+export class RealTimeScheduler implements IScheduler {
+  private nextId: number = 1;
+  private queue: Array<ScheduledTask & { callback: () => void }> = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private timerDueTime: number = Infinity;
+
+  now(): number {
+    return Date.now();
+  }
 
-    switch (event.type) {
-      case EventType.STARTED:
-        this.startTime = event.timestamp;
-        break;
+  /*
+   * Отрицательная задержка даёт срок в прошлом: задача выполняется
+   * при ближайшем срабатывании, но по-прежнему в порядке срока
+   */
+  schedule(callback: () => void, delayMs: number): ScheduledTask {
+    const task = { id: this.nextId++, dueTime: this.now() + delayMs, callback };
 
-      case EventType.ELEMENT_SORTED:
-        this.sortedElements++;
-        if (event.delay) {
-          this.totalDelay += event.delay;
-        }
-        break;
+    let position = this.queue.length;
+    while (position > 0 && this.queue[position - 1].dueTime > task.dueTime) {
+      position--;
+    }
+    this.queue.splice(position, 0, task);
+    this.arm();
 
-      case EventType.COMPLETED:
-        this.endTime = event.timestamp;
-        break;
+    return { id: task.id, dueTime: task.dueTime };
+  }
+
+  cancel(task: ScheduledTask): void {
+    this.queue = this.queue.filter(queued => queued.id !== task.id);
+    this.arm();
+  }
+
+  /*
+   * Таймер на срок первой задачи; без задач таймер снимается,
+   * чтобы не удерживать процесс
+   */
+  private arm(): void {
+    const next = this.queue[0];
+    if (next !== undefined && this.timer !== undefined && this.timerDueTime <= next.dueTime) {
+      return;
+    }
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+      this.timerDueTime = Infinity;
+    }
+    if (next === undefined) {
+      return;
     }
+
+    this.timerDueTime = next.dueTime;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.timerDueTime = Infinity;
+      this.runDue();
+    }, Math.min(Math.max(0, next.dueTime - this.now()), MAX_TIMEOUT_MS));
   }
 
-  getStatistics(): SortingStatistics {
-    return {
-      duration: this.endTime - this.startTime,
-      sortedElements: this.sortedElements,
-      totalDelay: this.totalDelay,
-      averageDelay: this.sortedElements > 0 ? this.totalDelay / this.sortedElements : 0,
-      eventCounts: new Map(this.events)
+  private runDue(): void {
+    const now = this.now();
+    try {
+      while (this.queue.length > 0 && this.queue[0].dueTime <= now) {
+        this.queue.shift()!.callback();
+      }
+    } finally {
+      this.arm();
+    }
+  }
+}
+
+/*
+ * Планировщик на виртуальных часах: время не ждёт, а мгновенно
+ * перескакивает к ближайшей задаче. Задачи с одинаковым сроком
+ * выполняются в порядке планирования.
+ */
+export class VirtualClockScheduler implements IScheduler {
+  private currentTime: number;
+  private nextId: number = 1;
+  private queue: Array<ScheduledTask & { callback: () => void }> = [];
+  private flushScheduled: boolean = false;
+
+  constructor(startTime: number = 0, private autoAdvance: boolean = true) {
+    this.currentTime = startTime;
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  schedule(callback: () => void, delayMs: number): ScheduledTask {
+    const task = {
+      id: this.nextId++,
+      dueTime: this.currentTime + Math.max(0, delayMs),
+      callback
     };
+
+    // Вставка с сохранением порядка по сроку, затем по порядку планирования
+    let position = this.queue.length;
+    while (position > 0 && this.queue[position - 1].dueTime > task.dueTime) {
+      position--;
+    }
+    this.queue.splice(position, 0, task);
+
+    if (this.autoAdvance && !this.flushScheduled) {
+      this.flushScheduled = true;
+      // Откладываем до конца текущего синхронного кода, чтобы
+      // все задачи одного прохода оказались в очереди
+      Promise.resolve().then(() => {
+        this.flushScheduled = false;
+        this.runAll();
+      });
+    }
+
+    return { id: task.id, dueTime: task.dueTime };
   }
 
-  printStatistics(): void {
-    const stats = this.getStatistics();
-    console.log('\n📊 Sorting Statistics:');
-    console.log(`   Duration: ${stats.duration.toFixed(2)}ms`);
-    console.log(`   Elements Sorted: ${stats.sortedElements}`);
-    console.log(`   Total Delay: ${stats.totalDelay}ms`);
-    console.log(`   Average Delay: ${stats.averageDelay.toFixed(2)}ms`);
-    console.log('   Event Counts:');
-    stats.eventCounts.forEach((count, type) => {
-      console.log(`      ${type}: ${count}`);
-    });
+  cancel(task: ScheduledTask): void {
+    this.queue = this.queue.filter(queued => queued.id !== task.id);
   }
 
-  reset(): void {
-    this.startTime = 0;
-    this.endTime = 0;
-    this.sortedElements = 0;
-    this.totalDelay = 0;
-    this.events.clear();
+  advanceBy(ms: number): void {
+    const target = this.currentTime + ms;
+    while (this.queue.length > 0 && this.queue[0].dueTime <= target) {
+      this.runNext();
+    }
+    this.currentTime = target;
+  }
+
+  runAll(): void {
+    while (this.queue.length > 0) {
+      this.runNext();
+    }
+  }
+
+  getPendingCount(): number {
+    return this.queue.length;
+  }
+
+  private runNext(): void {
+    const task = this.queue.shift()!;
+    this.currentTime = Math.max(this.currentTime, task.dueTime);
+    task.callback();
   }
 }
 
-interface SortingStatistics {
-  duration: number;
-  sortedElements: number;
-  totalDelay: number;
-  averageDelay: number;
-  eventCounts: Map<EventType, number>;
+/*
+ * Наименьший интервал между задержками различных значений
+ */
+const MIN_DELAY_GAP_MS = 1;
+
+/*
+ * Преобразователь значений элементов в задержки.
+ * NORMALIZED: (value - min) / (max - min) * baseDelayMs
+ * LOGARITHMIC: ln(1 + value - min) / ln(1 + max - min) * baseDelayMs
+ * OFFSET: (value - min) * delayScale
+ * LINEAR: value * delayScale (отрицательные значения отклоняются)
+ * При порядке DESCENDING расстояние отсчитывается от max, а LINEAR
+ * отражает значения относительно середины диапазона.
+ * Различные значения разносятся не меньше чем на MIN_DELAY_GAP_MS
+ * в порядке их рангов, поэтому итоговая задержка может превысить
+ * расчётную на 1 мс за каждое различное значение.
+ */
+export class DelayMapper {
+  private readonly min: number;
+  private readonly max: number;
+  private readonly delays: Map<number, number> = new Map();
+
+  constructor(private readonly config: Readonly<SortingConfig>, values: number[]) {
+    const invalid = values.find(value => !Number.isFinite(value));
+    if (invalid !== undefined) {
+      throw new RangeError(`Cannot map value ${invalid} to a delay`);
+    }
+    this.min = values.reduce((min, value) => Math.min(min, value), values[0] ?? 0);
+    this.max = values.reduce((max, value) => Math.max(max, value), values[0] ?? 0);
+
+    // LINEAR отдал бы всем отрицательным значениям одну нулевую задержку
+    if (config.delayMapping === DelayMappingType.LINEAR && this.min < 0) {
+      throw new RangeError(
+        `LINEAR delay mapping cannot order negative value ${this.min}; use OFFSET or NORMALIZED`
+      );
+    }
+
+    // Таймеры не различают задержки ближе 1 мс: значения ранжируются
+    // по расчётной задержке (равные задержки - по самим значениям)
+    // и раздвигаются до минимального интервала
+    const direction = config.order === SortOrder.DESCENDING ? -1 : 1;
+    const ranked = Array.from(new Set(values))
+      .map(value => ({ value, delay: this.computeDelay(value) }))
+      .sort((a, b) => (a.delay - b.delay) || direction * (a.value - b.value));
+    let previous = -Infinity;
+    ranked.forEach(({ value, delay }) => {
+      previous = Math.max(delay, previous + MIN_DELAY_GAP_MS);
+      this.delays.set(value, previous);
+    });
+  }
+
+  map(value: number): number {
+    return this.delays.get(value) ?? this.computeDelay(value);
+  }
+
+  private computeDelay(value: number): number {
+    switch (this.config.delayMapping) {
+      case DelayMappingType.LINEAR:
+        return (this.config.order === SortOrder.DESCENDING ? this.max - value + this.min : value)
+          * this.config.delayScale;
+
+      case DelayMappingType.OFFSET:
+        return this.span(value).distance * this.config.delayScale;
+
+      case DelayMappingType.LOGARITHMIC: {
+        const { distance, range, halved } = this.span(value);
+        // ln(1 + 2x) = ln 2 + ln(x + 1/2) для половинных величин
+        const log = (x: number) => halved ? Math.LN2 + Math.log(x + 0.5) : Math.log1p(x);
+        return range > 0 ? log(distance) / log(range) * this.config.baseDelayMs : 0;
+      }
+
+      case DelayMappingType.NORMALIZED:
+      default: {
+        const { distance, range } = this.span(value);
+        return range > 0 ? distance / range * this.config.baseDelayMs : 0;
+      }
+    }
+  }
+
+  /*
+   * Расстояние значения от начала диапазона в порядке сортировки
+   * (от min, при DESCENDING от max) и ширина диапазона. Для диапазонов
+   * шире Number.MAX_VALUE обе величины делятся пополам.
+   */
+  private span(value: number): { distance: number; range: number; halved: boolean } {
+    const descending = this.config.order === SortOrder.DESCENDING;
+    const range = this.max - this.min;
+    if (Number.isFinite(range)) {
+      return { distance: descending ? this.max - value : value - this.min, range, halved: false };
+    }
+    return {
+      distance: descending ? this.max / 2 - value / 2 : value / 2 - this.min / 2,
+      range: this.max / 2 - this.min / 2,
+      halved: true
+    };
+  }
 }
 
 /*
- * Наблюдатель для записи истории сортировки
+ * Обёртка над планировщиком с поддержкой паузы. На паузе задачи
+ * снимаются с исходного планировщика с запоминанием оставшейся
+ * задержки и планируются заново при возобновлении.
  */
-class HistoryObserver<T extends ISortable> implements IObserver<T> {
-  private history: Array<{
-    event: SortingEvent<T>;
-    formattedTime: string;
-  }> = [];
+export class PausableScheduler implements IScheduler {
+  private paused: boolean = false;
+  private nextId: number = 1;
+  private tasks: Map<number, {
+    callback: () => void;
+    dueTime: number;
+    remaining: number;
+    inner?: ScheduledTask;
+  }> = new Map();
+
+  constructor(private inner: IScheduler) {}
+
+  now(): number {
+    return this.inner.now();
+  }
 
-  update(event: SortingEvent<T>): void {
-    this.history.push({
-      event,
-      formattedTime: new Date(event.timestamp).toLocaleTimeString()
+  schedule(callback: () => void, delayMs: number): ScheduledTask {
+    const id = this.nextId++;
+    const remaining = Math.max(0, delayMs);
+    const entry = { callback, dueTime: this.now() + delayMs, remaining, inner: undefined as ScheduledTask | undefined };
+
+    if (!this.paused) {
+      entry.inner = this.inner.schedule(() => this.fire(id), delayMs);
+    }
+    this.tasks.set(id, entry);
+
+    return { id, dueTime: entry.dueTime };
+  }
+
+  cancel(task: ScheduledTask): void {
+    const entry = this.tasks.get(task.id);
+    if (entry?.inner) {
+      this.inner.cancel(entry.inner);
+    }
+    this.tasks.delete(task.id);
+  }
+
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+
+    const now = this.now();
+    this.tasks.forEach(entry => {
+      if (entry.inner) {
+        this.inner.cancel(entry.inner);
+        entry.inner = undefined;
+      }
+      entry.remaining = Math.max(0, entry.dueTime - now);
     });
   }
 
-  getHistory(): Array<{ event: SortingEvent<T>; formattedTime: string }> {
-    return [...this.history];
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+
+    const now = this.now();
+    this.pendingIds().forEach(id => {
+      const entry = this.tasks.get(id)!;
+      entry.dueTime = now + entry.remaining;
+      entry.inner = this.inner.schedule(() => this.fire(id), entry.remaining);
+    });
   }
 
-  printHistory(): void {
-    console.log('\n📜 Sorting History:');
-    this.history.forEach(({ event, formattedTime }, index) => {
-      console.log(`   ${index + 1}. [${formattedTime}] ${event.type}${event.element ? ` - ${event.element.getValue()}` : ''}`);
+  /*
+   * Выполнение ближайшей задачи на паузе; оставшиеся задержки
+   * остальных задач сокращаются на её задержку
+   */
+  step(): boolean {
+    if (!this.paused) return false;
+
+    const [id] = this.pendingIds();
+    if (id === undefined) return false;
+
+    const elapsed = this.tasks.get(id)!.remaining;
+    this.tasks.forEach(entry => {
+      entry.remaining = Math.max(0, entry.remaining - elapsed);
     });
+    this.fire(id);
+    return true;
   }
 
-  clear(): void {
-    this.history = [];
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  getPendingCount(): number {
+    return this.tasks.size;
+  }
+
+  private pendingIds(): number[] {
+    return Array.from(this.tasks.keys())
+      .sort((a, b) => this.tasks.get(a)!.remaining - this.tasks.get(b)!.remaining || a - b);
+  }
+
+  private fire(id: number): void {
+    const entry = this.tasks.get(id);
+    if (!entry) return;
+    this.tasks.delete(id);
+    entry.callback();
   }
 }
 
 /*
- * Абстрактная базовая стратегия сортировки
+ * Создание планировщика по типу часов
  */
-abstract class AbstractSortingStrategy<T extends ISortable> 
-  implements ISortingStrategy<T> {
-  
-  abstract sort(array: T[], context: SortingContext<T>): Promise<T[]>;
-  abstract getName(): string;
-  abstract getDescription(): string;
+export function createScheduler(clock: ClockType): IScheduler {
+  return clock === ClockType.VIRTUAL
+    ? new VirtualClockScheduler()
+    : new RealTimeScheduler();
+}
+
+/*
+ * Уровни журналирования
+ */
+export enum LogLevel {
+  DEBUG = 10,
+  INFO = 20,
+  WARN = 30,
+  ERROR = 40,
+  SILENT = 100
+}
+
+/*
+ * Запись журнала
+ */
+export interface LogRecord {
+  level: LogLevel;
+  message: string;
+  timestamp: number;
+  fields?: Record<string, unknown>;
+}
+
+/*
+ * Приёмник записей журнала
+ */
+export interface ILogSink {
+  write(record: LogRecord): void;
+}
+
+/*
+ * Интерфейс журнала
+ */
+export interface ILogger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+  isEnabled(level: LogLevel): boolean;
+}
+
+/*
+ * Вывод сообщений в консоль; предупреждения и ошибки идут в stderr.
+ * С toStderr весь вывод идёт в stderr, оставляя stdout для данных.
+ */
+export class ConsoleLogSink implements ILogSink {
+  constructor(private readonly toStderr: boolean = false) {}
+
+  write(record: LogRecord): void {
+    if (record.level >= LogLevel.ERROR) {
+      console.error(record.message);
+    } else if (record.level >= LogLevel.WARN) {
+      console.warn(record.message);
+    } else if (this.toStderr) {
+      console.error(record.message);
+    } else {
+      console.log(record.message);
+    }
+  }
+}
 
-  protected getConfig(): Readonly<SortingConfig> {
-    return ConfigurationManager.getInstance().getConfig();
+/*
+ * Запись журнала построчно в формате JSON Lines
+ */
+export class JsonLinesLogSink implements ILogSink {
+  constructor(private readonly stream: NodeJS.WritableStream = process.stdout) {}
+
+  write(record: LogRecord): void {
+    this.stream.write(JSON.stringify({
+      time: new Date(record.timestamp).toISOString(),
+      level: LogLevel[record.level],
+      message: record.message,
+      ...record.fields
+    }) + '\n');
   }
 }
 
 /*
- * Стандартная стратегия сортировки
+ * Накопление записей в памяти (для тестов)
  */
-class DefaultStrategy<T extends ISortable> 
-  extends AbstractSortingStrategy<T> {
+export class MemoryLogSink implements ILogSink {
+  private records: LogRecord[] = [];
 
-  @Log
-  @ValidateArray
-  @Measure
-  sort(array: T[], context: SortingContext<T>): Promise<T[]> {
-    return new Promise((resolve, reject) => {
-      context.emitStarted();
+  write(record: LogRecord): void {
+    this.records.push(record);
+  }
 
-      const result: T[] = [];
-      let completedCount = 0;
-      const totalElements = array.length;
+  getRecords(level?: LogLevel): LogRecord[] {
+    return this.records.filter(record => level === undefined || record.level === level);
+  }
 
-      try {
-        array.forEach((element, index) => {
-          const delayMs = element.getValue();
-          
-          setTimeout(() => {
-            // Добавляем элемент в результирующий массив
-            result.push(element);
-            
-            console.log(`Added to result array: ${element.getValue()}`);
-            
-            // Уведомление наблюдателей
-            context.emitElementSorted(element, index, delayMs);
-            
-            completedCount++;
-            
-            // Если все элементы обработаны, завершаем Promise
-            if (completedCount === totalElements) {
-              context.emitCompleted();
-              resolve(result);
-            }
-          }, delayMs);
-        });
+  getMessages(): string[] {
+    return this.records.map(record => record.message);
+  }
 
-      } catch (error) {
-        context.emitError(error as Error);
-        reject(error);
-      }
-    });
+  clear(): void {
+    this.records = [];
+  }
+}
+
+/*
+ * Журнал с порогом уровня и набором приёмников
+ */
+export class Logger implements ILogger {
+  private sinks: ILogSink[];
+
+  constructor(
+    sinks: ILogSink[] = [new ConsoleLogSink()],
+    private level: LogLevel = LogLevel.INFO
+  ) {
+    this.sinks = [...sinks];
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log(LogLevel.DEBUG, message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log(LogLevel.INFO, message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log(LogLevel.WARN, message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log(LogLevel.ERROR, message, fields);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return level >= this.level && this.level !== LogLevel.SILENT && this.sinks.length > 0;
+  }
+
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  addSink(sink: ILogSink): void {
+    this.sinks.push(sink);
+  }
+
+  removeSink(sink: ILogSink): void {
+    this.sinks = this.sinks.filter(existing => existing !== sink);
+  }
+
+  private log(level: LogLevel, message: string, fields?: Record<string, unknown>): void {
+    if (!this.isEnabled(level)) return;
+
+    const record: LogRecord = { level, message, timestamp: Date.now(), fields };
+    this.sinks.forEach(sink => sink.write(record));
+  }
+}
+
+/*
+ * Синглтон с журналом, через который идёт весь вывод библиотеки
+ */
+export class LogManager {
+  private static instance: LogManager;
+  private logger: ILogger = new Logger();
+
+  private constructor() {}
+
+  static getInstance(): LogManager {
+    if (!LogManager.instance) {
+      LogManager.instance = new LogManager();
+    }
+    return LogManager.instance;
+  }
+
+  getLogger(): ILogger {
+    return this.logger;
+  }
+
+  setLogger(logger: ILogger): void {
+    this.logger = logger;
+  }
+
+  silence(): void {
+    this.logger = new Logger([], LogLevel.SILENT);
+  }
+
+  resetToDefaults(): void {
+    this.logger = new Logger();
+  }
+}
+
+/*
+ * Журнал библиотеки
+ */
+function getLogger(): ILogger {
+  return LogManager.getInstance().getLogger();
+}
+
+/*
+ * Декоратор для измерения времени выполнения метода
+ */
+export function Measure(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+  const originalMethod = descriptor.value;
+
+  descriptor.value = function (...args: any[]) {
+    const start = performance.now();
+    const result = originalMethod.apply(this, args);
+    
+    if (result && typeof result.then === 'function') {
+      return result.then((res: any) => {
+        const end = performance.now();
+        getLogger().debug(`${propertyKey} completed in ${(end - start).toFixed(2)}ms`, {
+          method: propertyKey,
+          durationMs: end - start
+        });
+        return res;
+      });
+    }
+    
+    const end = performance.now();
+    getLogger().debug(`${propertyKey} executed in ${(end - start).toFixed(2)}ms`, {
+      method: propertyKey,
+      durationMs: end - start
+    });
+    return result;
+  };
+
+  return descriptor;
+}
+
+/*
+ * Декоратор для логирования вызовов методов
+ */
+export function Log(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+  const originalMethod = descriptor.value;
+
+  descriptor.value = function (...args: any[]) {
+    // Конфигурация сортировщика, если среди аргументов есть его контекст
+    const context = args.find(arg => arg instanceof SortingContext);
+    const config = context ? context.getConfig() : ConfigurationManager.getInstance().getConfig();
+    if (config.enableLogging) {
+      getLogger().debug(`Calling ${propertyKey} with ${args.length} argument(s)`, {
+        method: propertyKey,
+        argumentCount: args.length
+      });
+    }
+    return originalMethod.apply(this, args);
+  };
+
+  return descriptor;
+}
+
+/*
+ * Декоратор для валидации аргументов
+ */
+export function ValidateArray(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+  const originalMethod = descriptor.value;
+
+  descriptor.value = function (...args: any[]) {
+    const array = args[0];
+    if (!Array.isArray(array)) {
+      throw new ArrayValidationError(`${propertyKey} expects an array as first argument`);
+    }
+    if (array.length === 0) {
+      throw new ArrayValidationError(`${propertyKey} cannot work with empty array`);
+    }
+    return originalMethod.apply(this, args);
+  };
+
+  return descriptor;
+}
+
+/*
+ * Контекст сортировки, реализующий паттерн Subject
+ */
+export class SortingContext<T extends ISortable> implements ISubject<T> {
+  private observers: Set<IObserver<T>> = new Set();
+  private eventHistory: SortingEvent<T>[] = [];
+  private elementCount: number = 0;
+  private inversionCount: number = 0;
+  private repairCount: number = 0;
+  private startTime: number = 0;
+
+  constructor(
+    private strategyName: string,
+    private scheduler: IScheduler = new RealTimeScheduler(),
+    private config: Readonly<SortingConfig> = ConfigurationManager.getInstance().getConfig()
+  ) {}
+
+  attach(observer: IObserver<T>): void {
+    this.observers.add(observer);
+  }
+
+  detach(observer: IObserver<T>): void {
+    this.observers.delete(observer);
+  }
+
+  notify(event: SortingEvent<T>): void {
+    this.eventHistory.push(event);
+    this.observers.forEach(observer => observer.update(event));
+  }
+
+  /*
+   * Начало нового запуска: время начала и счётчики отсчитываются заново
+   */
+  beginRun(): void {
+    this.startTime = this.scheduler.now();
+    this.elementCount = 0;
+    this.inversionCount = 0;
+    this.repairCount = 0;
+  }
+
+  /*
+   * Событие, полученное из рабочего потока. Счётчики ведутся так же,
+   * как для событий этого контекста; время начала задаёт beginRun()
+   * при запуске потока.
+   */
+  notifyForwarded(event: SortingEvent<T>): void {
+    switch (event.type) {
+      case EventType.ELEMENT_SORTED:
+        this.elementCount++;
+        break;
+      case EventType.INVERSION_DETECTED:
+        this.inversionCount++;
+        break;
+      case EventType.COMPLETED:
+        this.repairCount += event.metadata?.repairs ?? 0;
+        break;
+    }
+    this.notify(event);
+  }
+
+  emitStarted(snapshot?: number[]): void {
+    this.beginRun();
+    const event: SortingEvent<T> = {
+      type: EventType.STARTED,
+      snapshot,
+      timestamp: this.scheduler.now(),
+      metadata: { strategy: this.strategyName }
+    };
+    this.notify(event);
+  }
+
+  emitElementSorted(element: T, index: number, delay: number): void {
+    this.elementCount++;
+    const event: SortingEvent<T> = {
+      type: EventType.ELEMENT_SORTED,
+      element,
+      index,
+      timestamp: this.scheduler.now(),
+      delay,
+      metadata: { strategy: this.strategyName, totalSorted: this.elementCount, originalIndex: index }
+    };
+    this.notify(event);
+  }
+
+  emitCompleted(): void {
+    const event: SortingEvent<T> = {
+      type: EventType.COMPLETED,
+      timestamp: this.scheduler.now(),
+      metadata: { 
+        strategy: this.strategyName,
+        duration: this.getDuration(),
+        totalElements: this.elementCount,
+        inversions: this.inversionCount,
+        repairs: this.repairCount
+      }
+    };
+    this.notify(event);
+  }
+
+  emitInversionDetected(element: T, index: number, previous: T): void {
+    this.inversionCount++;
+    const event: SortingEvent<T> = {
+      type: EventType.INVERSION_DETECTED,
+      element,
+      index,
+      timestamp: this.scheduler.now(),
+      metadata: { previousValue: previous.getValue() }
+    };
+    this.notify(event);
+  }
+
+  emitCancelled(placedElements: number, totalElements: number, reason?: unknown): void {
+    const event: SortingEvent<T> = {
+      type: EventType.CANCELLED,
+      timestamp: this.scheduler.now(),
+      metadata: {
+        strategy: this.strategyName,
+        duration: this.getDuration(),
+        placedElements,
+        totalElements,
+        reason: reason instanceof Error ? reason.message : reason
+      }
+    };
+    this.notify(event);
+  }
+
+  emitPaused(pendingTasks: number): void {
+    this.notify({
+      type: EventType.PAUSED,
+      timestamp: this.scheduler.now(),
+      metadata: { strategy: this.strategyName, pendingTasks }
+    });
+  }
+
+  emitResumed(pendingTasks: number): void {
+    this.notify({
+      type: EventType.RESUMED,
+      timestamp: this.scheduler.now(),
+      metadata: { strategy: this.strategyName, pendingTasks }
+    });
+  }
+
+  emitStepped(pendingTasks: number): void {
+    this.notify({
+      type: EventType.STEPPED,
+      timestamp: this.scheduler.now(),
+      metadata: { strategy: this.strategyName, pendingTasks }
+    });
+  }
+
+  emitCompare(i: number, j: number, values: [number, number], result: number): void {
+    this.notify({
+      type: EventType.COMPARE,
+      indices: [i, j],
+      timestamp: this.scheduler.now(),
+      metadata: { values, result }
+    });
+  }
+
+  emitSwap(i: number, j: number, changes: ArrayChange[]): void {
+    this.notify({
+      type: EventType.SWAP,
+      indices: [i, j],
+      changes,
+      timestamp: this.scheduler.now()
+    });
+  }
+
+  emitWrite(element: T, index: number, change: ArrayChange): void {
+    this.notify({
+      type: EventType.WRITE,
+      element,
+      index,
+      indices: [index],
+      changes: [change],
+      timestamp: this.scheduler.now()
+    });
+  }
+
+  emitPartition(pivotIndex: number, low: number, high: number, snapshot: number[]): void {
+    this.notify({
+      type: EventType.PARTITION,
+      index: pivotIndex,
+      indices: [low, high],
+      snapshot,
+      timestamp: this.scheduler.now()
+    });
+  }
+
+  emitPassCompleted(pass: number, snapshot: number[]): void {
+    this.notify({
+      type: EventType.PASS_COMPLETED,
+      snapshot,
+      timestamp: this.scheduler.now(),
+      metadata: { pass }
+    });
+  }
+
+  recordRepairs(count: number): void {
+    this.repairCount += count;
+  }
+
+  emitError(error: Error): void {
+    const event: SortingEvent<T> = {
+      type: EventType.ERROR,
+      timestamp: this.scheduler.now(),
+      metadata: { strategy: this.strategyName, duration: this.getDuration(), error: error.message }
+    };
+    this.notify(event);
+  }
+
+  getEventHistory(): SortingEvent<T>[] {
+    return [...this.eventHistory];
+  }
+
+  getElementCount(): number {
+    return this.elementCount;
+  }
+
+  getInversionCount(): number {
+    return this.inversionCount;
+  }
+
+  getRepairCount(): number {
+    return this.repairCount;
+  }
+
+  getStrategyName(): string {
+    return this.strategyName;
+  }
+
+  /*
+   * Время с начала сортировки по часам планировщика
+   */
+  getDuration(): number {
+    return this.scheduler.now() - this.startTime;
+  }
+
+  getScheduler(): IScheduler {
+    return this.scheduler;
+  }
+
+  getConfig(): Readonly<SortingConfig> {
+    return this.config;
+  }
+}
+
+/*
+ * Наблюдатель для логирования событий в консоль
+ */
+export class ConsoleLoggingObserver<T extends ISortable> implements IObserver<T> {
+  constructor(
+    private config: Readonly<SortingConfig> = ConfigurationManager.getInstance().getConfig(),
+    private logger?: ILogger
+  ) {}
+
+  update(event: SortingEvent<T>): void {
+    if (!this.config.enableLogging) return;
+
+    const timestamp = this.config.showTimestamps 
+      ? `[${new Date(event.timestamp).toISOString()}] ` 
+      : '';
+
+    const logger = this.logger ?? getLogger();
+    const fields = {
+      event: event.type,
+      index: event.index,
+      element: event.element?.getValue(),
+      delay: event.delay,
+      ...event.metadata
+    };
+
+    switch (event.type) {
+      case EventType.STARTED:
+        logger.info(`\n${this.config.logPrefix} ${timestamp}Sorting started: ${event.metadata?.strategy}`, fields);
+        break;
+
+      case EventType.ELEMENT_SORTED:
+        const delayInfo = event.delay ? ` (delay: ${event.delay}ms)` : '';
+        logger.info(`${this.config.logPrefix} ${timestamp}Element ${event.element?.getValue()} added to result${delayInfo}`, fields);
+        break;
+
+      case EventType.COMPLETED:
+        logger.info(`${this.config.logPrefix} ${timestamp}Sorting completed: ${event.metadata?.totalElements} elements\n`, fields);
+        break;
+
+      case EventType.ERROR:
+        logger.error(`${this.config.logPrefix} ${timestamp}Error: ${event.metadata?.error}`, fields);
+        break;
+
+      case EventType.CANCELLED:
+        logger.info(`${this.config.logPrefix} ${timestamp}Sorting cancelled after ${event.metadata?.placedElements} of ${event.metadata?.totalElements} elements`, fields);
+        break;
+
+      case EventType.PAUSED:
+        logger.info(`${this.config.logPrefix} ${timestamp}Sorting paused (${event.metadata?.pendingTasks} pending)`, fields);
+        break;
+
+      case EventType.RESUMED:
+        logger.info(`${this.config.logPrefix} ${timestamp}Sorting resumed (${event.metadata?.pendingTasks} pending)`, fields);
+        break;
+
+      case EventType.STEPPED:
+        logger.info(`${this.config.logPrefix} ${timestamp}Stepped (${event.metadata?.pendingTasks} pending)`, fields);
+        break;
+
+      case EventType.INVERSION_DETECTED:
+        logger.warn(`${this.config.logPrefix} ${timestamp}Inversion at ${event.index}: ${event.metadata?.previousValue} > ${event.element?.getValue()}`, fields);
+        break;
+    }
+  }
+}
+
+/*
+ * Параметры терминальной анимации
+ */
+export interface TerminalAnimationOptions {
+  stream?: NodeJS.WritableStream;
+  width?: number;            // Столбцов на диаграмму; по умолчанию ширина терминала
+  height?: number;           // Строк на диаграмму
+  frameIntervalMs?: number;  // Минимальный интервал между кадрами
+}
+
+/*
+ * Наблюдатель, рисующий столбчатые диаграммы рабочего массива
+ * и растущего результата прямо в терминале. Вне терминала
+ * (перенаправление в файл, CI) выводится только итоговый кадр
+ * без управляющих последовательностей.
+ */
+export class TerminalAnimationObserver<T extends ISortable> implements IObserver<T> {
+  private static readonly BLOCKS = ' ▁▂▃▄▅▆▇█';
+  private static readonly RESET = '\x1b[0m';
+  private static readonly COLORS = {
+    bar: '\x1b[36m',
+    compare: '\x1b[33m',
+    write: '\x1b[31m',
+    placed: '\x1b[32m'
+  };
+
+  private readonly stream: NodeJS.WritableStream;
+  private readonly interactive: boolean;
+  private readonly width: number;
+  private readonly height: number;
+  private readonly frameIntervalMs: number;
+
+  private working: number[] = [];
+  private result: number[] = [];
+  private highlighted = new Map<number, string>();
+  private status: string = '';
+  private renderedLines: number = 0;
+  private lastFrameTime: number = -Infinity;
+
+  constructor(
+    options: TerminalAnimationOptions = {},
+    private config: Readonly<SortingConfig> = ConfigurationManager.getInstance().getConfig()
+  ) {
+    this.stream = options.stream ?? process.stdout;
+    const tty = this.stream as NodeJS.WriteStream;
+    this.interactive = tty.isTTY === true;
+    this.width = Math.max(1, options.width ?? (tty.columns ?? 80) - 1);
+    this.height = Math.max(1, options.height ?? 8);
+    this.frameIntervalMs = options.frameIntervalMs ?? 16;
+  }
+
+  update(event: SortingEvent<T>): void {
+    const colors = TerminalAnimationObserver.COLORS;
+
+    switch (event.type) {
+      case EventType.STARTED:
+        this.working = [...(event.snapshot ?? [])];
+        this.result = [];
+        this.highlighted.clear();
+        this.renderedLines = 0;
+        this.status = `Sorting: ${event.metadata?.strategy}`;
+        break;
+
+      case EventType.ELEMENT_SORTED:
+        this.result.push(event.element!.getValue());
+        this.highlighted.clear();
+        this.status = `Placed ${this.result.length} of ${this.working.length || '?'}`;
+        break;
+
+      case EventType.COMPARE:
+        this.highlight(event.indices ?? [], colors.compare);
+        break;
+
+      case EventType.SWAP:
+      case EventType.WRITE:
+        (event.changes ?? []).forEach(({ index, value }) => this.working[index] = value);
+        this.highlight(event.indices ?? [], colors.write);
+        break;
+
+      case EventType.PARTITION:
+      case EventType.PASS_COMPLETED:
+        this.working = [...(event.snapshot ?? this.working)];
+        break;
+
+      case EventType.COMPLETED:
+        this.highlighted.clear();
+        this.status = `Sorting completed: ${event.metadata?.totalElements} elements`;
+        this.render(true);
+        return;
+
+      case EventType.CANCELLED:
+        this.highlighted.clear();
+        this.status = `Sorting cancelled after ${event.metadata?.placedElements} of ${event.metadata?.totalElements} elements`;
+        this.render(true);
+        return;
+
+      case EventType.ERROR:
+        this.status = `Error: ${event.metadata?.error}`;
+        this.render(true);
+        return;
+
+      case EventType.PAUSED:
+        this.status = 'Paused';
+        this.render(true);
+        return;
+
+      case EventType.RESUMED:
+      case EventType.STEPPED:
+        this.status = `${event.type === EventType.STEPPED ? 'Stepped' : 'Resumed'} (${event.metadata?.pendingTasks} pending)`;
+        break;
+    }
+
+    this.render(false);
+  }
+
+  private highlight(indices: number[], color: string): void {
+    this.highlighted = new Map(indices.map(index => [index, color]));
+  }
+
+  /*
+   * Вывод кадра; промежуточные кадры пропускаются вне терминала
+   * и чаще, чем раз в frameIntervalMs
+   */
+  private render(final: boolean): void {
+    if (!this.interactive && !final) return;
+
+    const now = Date.now();
+    if (!final && now - this.lastFrameTime < this.frameIntervalMs) return;
+    this.lastFrameTime = now;
+
+    const lines = [
+      this.status,
+      ...(this.working.length > 0 ? ['Input:', ...this.chart(this.working, this.highlighted)] : []),
+      'Result:',
+      ...this.chart(this.result, final
+        ? new Map()
+        : new Map([[this.result.length - 1, TerminalAnimationObserver.COLORS.placed]]))
+    ];
+
+    const rewind = this.interactive && this.renderedLines > 0
+      ? `\x1b[${this.renderedLines}F\x1b[J`
+      : '';
+    this.stream.write(rewind + lines.join('\n') + '\n');
+    this.renderedLines = this.interactive ? lines.length : 0;
+  }
+
+  /*
+   * Строки столбчатой диаграммы. Если элементов больше, чем столбцов,
+   * каждый столбец показывает максимум своей группы элементов.
+   * Масштаб общий для обеих диаграмм, чтобы столбцы были сравнимы.
+   */
+  private chart(values: number[], highlighted: Map<number, string>): string[] {
+    const total = Math.max(this.working.length, this.result.length, 1);
+    const columns = Math.min(total, this.width);
+    const all = this.working.length > 0 ? this.working : this.result;
+    const min = all.reduce((a, b) => Math.min(a, b), Infinity);
+    const max = all.reduce((a, b) => Math.max(a, b), -Infinity);
+    const levels = this.height * 8;
+
+    const heights: number[] = [];
+    const colors: (string | undefined)[] = [];
+    for (let column = 0; column < columns; column++) {
+      const from = Math.floor(column * total / columns);
+      const to = Math.floor((column + 1) * total / columns);
+
+      let value = -Infinity;
+      let color: string | undefined;
+      for (let i = from; i < to && i < values.length; i++) {
+        value = Math.max(value, values[i]);
+        color = color ?? highlighted.get(i);
+      }
+
+      heights.push(value === -Infinity
+        ? 0
+        : max === min ? levels : Math.max(1, Math.round((value - min) / (max - min) * levels)));
+      colors.push(color);
+    }
+
+    const colorize = this.config.colorize && this.interactive;
+    const { BLOCKS, RESET, COLORS } = TerminalAnimationObserver;
+    const rows: string[] = [];
+    for (let row = this.height - 1; row >= 0; row--) {
+      rows.push(heights.map((height, column) => {
+        const block = BLOCKS[Math.min(8, Math.max(0, height - row * 8))];
+        return colorize && block !== ' '
+          ? `${colors[column] ?? COLORS.bar}${block}${RESET}`
+          : block;
+      }).join(''));
+    }
+    return rows;
+  }
+}
+
+/*
+ * Наблюдатель для сбора статистики
+ */
+export class StatisticsObserver<T extends ISortable> implements IObserver<T> {
+  private startTime: number = 0;
+  private endTime: number = 0;
+  private sortedElements: number = 0;
+  private totalDelay: number = 0;
+  private inversions: number = 0;
+  private repairs: number = 0;
+  private comparisons: number = 0;
+  private swaps: number = 0;
+  private writes: number = 0;
+  private events: Map<EventType, number> = new Map();
+
+  update(event: SortingEvent<T>): void {
+    const currentCount = this.events.get(event.type) || 0;
+    this.events.set(event.type, currentCount + 1);
+
+    switch (event.type) {
+      case EventType.STARTED:
+        this.startTime = event.timestamp;
+        break;
+
+      case EventType.ELEMENT_SORTED:
+        this.sortedElements++;
+        if (event.delay) {
+          this.totalDelay += event.delay;
+        }
+        break;
+
+      case EventType.COMPLETED:
+        this.endTime = event.timestamp;
+        this.repairs += event.metadata?.repairs ?? 0;
+        break;
+
+      case EventType.CANCELLED:
+        this.endTime = event.timestamp;
+        break;
+
+      case EventType.INVERSION_DETECTED:
+        this.inversions++;
+        break;
+
+      case EventType.COMPARE:
+        this.comparisons++;
+        break;
+
+      case EventType.SWAP:
+        this.swaps++;
+        break;
+
+      case EventType.WRITE:
+        this.writes++;
+        break;
+    }
+  }
+
+  getStatistics(): SortingStatistics {
+    return {
+      duration: this.endTime - this.startTime,
+      sortedElements: this.sortedElements,
+      totalDelay: this.totalDelay,
+      averageDelay: this.sortedElements > 0 ? this.totalDelay / this.sortedElements : 0,
+      inversions: this.inversions,
+      repairs: this.repairs,
+      comparisons: this.comparisons,
+      swaps: this.swaps,
+      writes: this.writes,
+      eventCounts: new Map(this.events)
+    };
+  }
+
+  printStatistics(): void {
+    const stats = this.getStatistics();
+    const logger = getLogger();
+    logger.info('\n📊 Sorting Statistics:');
+    logger.info(`   Duration: ${stats.duration.toFixed(2)}ms`);
+    logger.info(`   Elements Sorted: ${stats.sortedElements}`);
+    logger.info(`   Total Delay: ${stats.totalDelay}ms`);
+    logger.info(`   Average Delay: ${stats.averageDelay.toFixed(2)}ms`);
+    logger.info(`   Inversions: ${stats.inversions} (repaired: ${stats.repairs})`);
+    logger.info(`   Comparisons: ${stats.comparisons}, Swaps: ${stats.swaps}, Writes: ${stats.writes}`);
+    logger.info('   Event Counts:');
+    stats.eventCounts.forEach((count, type) => {
+      logger.info(`      ${type}: ${count}`);
+    });
+  }
+
+  reset(): void {
+    this.startTime = 0;
+    this.endTime = 0;
+    this.sortedElements = 0;
+    this.totalDelay = 0;
+    this.inversions = 0;
+    this.repairs = 0;
+    this.comparisons = 0;
+    this.swaps = 0;
+    this.writes = 0;
+    this.events.clear();
+  }
+}
+
+export interface SortingStatistics {
+  duration: number;
+  sortedElements: number;
+  totalDelay: number;
+  averageDelay: number;
+  inversions: number;
+  repairs: number;
+  comparisons: number;
+  swaps: number;
+  writes: number;
+  eventCounts: Map<EventType, number>;
+}
+
+/*
+ * Наблюдатель для записи истории сортировки
+ */
+export class HistoryObserver<T extends ISortable> implements IObserver<T> {
+  private history: Array<{
+    event: SortingEvent<T>;
+    formattedTime: string;
+  }> = [];
+
+  update(event: SortingEvent<T>): void {
+    this.history.push({
+      event,
+      formattedTime: new Date(event.timestamp).toLocaleTimeString()
+    });
+  }
+
+  getHistory(): Array<{ event: SortingEvent<T>; formattedTime: string }> {
+    return [...this.history];
+  }
+
+  printHistory(): void {
+    const logger = getLogger();
+    logger.info('\n📜 Sorting History:');
+    this.history.forEach(({ event, formattedTime }, index) => {
+      logger.info(`   ${index + 1}. [${formattedTime}] ${event.type}${event.element ? ` - ${event.element.getValue()}` : ''}`);
+    });
+  }
+
+  clear(): void {
+    this.history = [];
+  }
+}
+
+/*
+ * Накопленная гистограмма: счётчики по верхним границам корзин
+ */
+export interface HistogramSnapshot {
+  buckets: number[];         // Верхние границы, по возрастанию
+  counts: number[];          // Наблюдений не больше соответствующей границы
+  sum: number;
+  count: number;
+}
+
+/*
+ * Метрики одной стратегии, накопленные за все запуски
+ */
+export interface StrategyMetrics {
+  runs: number;
+  errors: number;
+  cancellations: number;
+  elements: number;
+  runDuration: HistogramSnapshot;    // Секунды
+  elementDelay: HistogramSnapshot;   // Секунды
+}
+
+export interface MetricsObserverOptions {
+  durationBuckets?: number[];  // Секунды
+  delayBuckets?: number[];     // Секунды
+}
+
+/*
+ * Долгоживущий наблюдатель, накапливающий метрики по именам стратегий
+ * за все запуски, к которым он подключён, с выводом в текстовом
+ * формате OpenMetrics (совместим с Prometheus)
+ */
+export class MetricsObserver<T extends ISortable> implements IObserver<T> {
+  private static readonly DEFAULT_BUCKETS = [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5, 10, 60];
+  private static readonly PREFIX = 'best_sort';
+
+  private readonly durationBuckets: number[];
+  private readonly delayBuckets: number[];
+  private metrics: Map<string, StrategyMetrics> = new Map();
+
+  constructor(options: MetricsObserverOptions = {}) {
+    this.durationBuckets = MetricsObserver.validateBuckets(options.durationBuckets ?? MetricsObserver.DEFAULT_BUCKETS);
+    this.delayBuckets = MetricsObserver.validateBuckets(options.delayBuckets ?? MetricsObserver.DEFAULT_BUCKETS);
+  }
+
+  update(event: SortingEvent<T>): void {
+    const strategy = event.metadata?.strategy;
+    if (typeof strategy !== 'string') return;
+
+    const metrics = this.getOrCreate(strategy);
+    switch (event.type) {
+      case EventType.STARTED:
+        metrics.runs++;
+        break;
+
+      case EventType.ELEMENT_SORTED:
+        metrics.elements++;
+        if (event.delay !== undefined) {
+          this.observe(metrics.elementDelay, event.delay / 1000);
+        }
+        break;
+
+      case EventType.COMPLETED:
+        this.observe(metrics.runDuration, (event.metadata?.duration ?? 0) / 1000);
+        break;
+
+      case EventType.CANCELLED:
+        metrics.cancellations++;
+        this.observe(metrics.runDuration, (event.metadata?.duration ?? 0) / 1000);
+        break;
+
+      case EventType.ERROR:
+        metrics.errors++;
+        this.observe(metrics.runDuration, (event.metadata?.duration ?? 0) / 1000);
+        break;
+    }
+  }
+
+  /*
+   * Копия накопленных метрик по именам стратегий
+   */
+  getMetrics(): Map<string, StrategyMetrics> {
+    const copy = (histogram: HistogramSnapshot): HistogramSnapshot => ({ ...histogram, counts: [...histogram.counts] });
+    return new Map(Array.from(this.metrics, ([strategy, metrics]) => [strategy, {
+      ...metrics,
+      runDuration: copy(metrics.runDuration),
+      elementDelay: copy(metrics.elementDelay)
+    }]));
+  }
+
+  /*
+   * Текстовое представление в формате OpenMetrics
+   */
+  expose(): string {
+    const prefix = MetricsObserver.PREFIX;
+    const entries = Array.from(this.metrics).sort(([a], [b]) => a.localeCompare(b));
+    const lines: string[] = [];
+
+    const counter = (name: string, help: string, value: (metrics: StrategyMetrics) => number) => {
+      lines.push(`# TYPE ${prefix}_${name} counter`, `# HELP ${prefix}_${name} ${help}`);
+      entries.forEach(([strategy, metrics]) => {
+        lines.push(`${prefix}_${name}_total{strategy="${MetricsObserver.escapeLabel(strategy)}"} ${value(metrics)}`);
+      });
+    };
+
+    const histogram = (name: string, help: string, value: (metrics: StrategyMetrics) => HistogramSnapshot) => {
+      lines.push(`# TYPE ${prefix}_${name} histogram`, `# UNIT ${prefix}_${name} seconds`, `# HELP ${prefix}_${name} ${help}`);
+      entries.forEach(([strategy, metrics]) => {
+        const label = `strategy="${MetricsObserver.escapeLabel(strategy)}"`;
+        const data = value(metrics);
+        data.buckets.forEach((bound, index) => {
+          lines.push(`${prefix}_${name}_bucket{${label},le="${bound}"} ${data.counts[index]}`);
+        });
+        lines.push(
+          `${prefix}_${name}_bucket{${label},le="+Inf"} ${data.count}`,
+          `${prefix}_${name}_sum{${label}} ${data.sum}`,
+          `${prefix}_${name}_count{${label}} ${data.count}`
+        );
+      });
+    };
+
+    counter('runs', 'Sorting runs started.', metrics => metrics.runs);
+    counter('errors', 'Sorting runs that failed.', metrics => metrics.errors);
+    counter('cancellations', 'Sorting runs that were aborted or timed out.', metrics => metrics.cancellations);
+    counter('elements', 'Elements placed into results.', metrics => metrics.elements);
+    histogram('run_duration_seconds', 'Duration of finished sorting runs.', metrics => metrics.runDuration);
+    histogram('element_delay_seconds', 'Delay before each element was placed.', metrics => metrics.elementDelay);
+
+    lines.push('# EOF');
+    return lines.join('\n') + '\n';
+  }
+
+  reset(): void {
+    this.metrics.clear();
+  }
+
+  private getOrCreate(strategy: string): StrategyMetrics {
+    let metrics = this.metrics.get(strategy);
+    if (!metrics) {
+      const histogram = (buckets: number[]): HistogramSnapshot => ({
+        buckets,
+        counts: new Array(buckets.length).fill(0),
+        sum: 0,
+        count: 0
+      });
+      metrics = {
+        runs: 0,
+        errors: 0,
+        cancellations: 0,
+        elements: 0,
+        runDuration: histogram(this.durationBuckets),
+        elementDelay: histogram(this.delayBuckets)
+      };
+      this.metrics.set(strategy, metrics);
+    }
+    return metrics;
+  }
+
+  private observe(histogram: HistogramSnapshot, value: number): void {
+    histogram.buckets.forEach((bound, index) => {
+      if (value <= bound) histogram.counts[index]++;
+    });
+    histogram.sum += value;
+    histogram.count++;
+  }
+
+  private static validateBuckets(buckets: number[]): number[] {
+    const valid = buckets.every((bound, index) => Number.isFinite(bound) && (index === 0 || bound > buckets[index - 1]));
+    if (!valid) {
+      throw new RangeError(`Histogram buckets must be finite and strictly increasing, got [${buckets.join(', ')}]`);
+    }
+    return [...buckets];
+  }
+
+  private static escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  }
+}
+
+/*
+ * Сериализованный элемент события
+ */
+export interface SerializedElement {
+  value: number;
+  text: string;
+}
+
+/*
+ * Событие сортировки в виде, пригодном для JSON
+ */
+export interface SerializedSortingEvent extends Omit<SortingEvent<never>, 'element'> {
+  element?: SerializedElement;
+}
+
+/*
+ * Преобразование события в сериализуемый вид
+ */
+export function serializeEvent<T extends ISortable>(event: SortingEvent<T>): SerializedSortingEvent {
+  const { element, ...rest } = event;
+  return element
+    ? { ...rest, element: { value: element.getValue(), text: element.toString() } }
+    : rest;
+}
+
+/*
+ * Элемент, восстановленный из записи
+ */
+export class RecordedElement implements ISortable {
+  constructor(
+    private readonly value: number,
+    private readonly text: string = `${value}`
+  ) {}
+
+  getValue(): number {
+    return this.value;
+  }
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+/*
+ * Наблюдатель, записывающий события в формате JSON Lines
+ * в файл или поток
+ */
+export class JsonLinesEventExporter<T extends ISortable> implements IObserver<T> {
+  private readonly stream: NodeJS.WritableStream;
+  private readonly ownsStream: boolean;
+  private error?: Error;
+
+  constructor(target: string | NodeJS.WritableStream) {
+    this.ownsStream = typeof target === 'string';
+    this.stream = typeof target === 'string' ? fs.createWriteStream(target) : target;
+
+    // Ошибки открытого экспортером файла не роняют процесс:
+    // запись прекращается, а ошибку возвращает close()
+    if (typeof target === 'string') {
+      this.stream.on('error', (error: Error) => {
+        if (this.error === undefined) {
+          this.error = error;
+          getLogger().error(`Event export to ${target} failed: ${error.message}`, { target, error: error.message });
+        }
+      });
+    }
+  }
+
+  update(event: SortingEvent<T>): void {
+    if (this.error === undefined) {
+      this.stream.write(JSON.stringify(serializeEvent(event)) + '\n');
+    }
+  }
+
+  /*
+   * Завершение записи; поток закрывается, только если
+   * экспортер открыл его сам. Отклоняется с ошибкой записи в файл.
+   */
+  close(): Promise<void> {
+    if (!this.ownsStream) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      if (this.error !== undefined) {
+        reject(this.error);
+        return;
+      }
+      this.stream.end((error?: Error | null) => {
+        const failure = error ?? this.error;
+        if (failure) {
+          reject(failure);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+/*
+ * Воспроизведение записанных событий через контекст сортировки
+ * с исходной или изменённой скоростью
+ */
+export class EventReplayer<T extends ISortable = RecordedElement> {
+  constructor(
+    private readonly createElement: (element: SerializedElement) => T =
+      element => new RecordedElement(element.value, element.text) as unknown as T
+  ) {}
+
+  /*
+   * Чтение записи из файла или потока
+   */
+  async load(source: string | NodeJS.ReadableStream): Promise<SerializedSortingEvent[]> {
+    const input = typeof source === 'string' ? fs.createReadStream(source, 'utf8') : source;
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    const events: SerializedSortingEvent[] = [];
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (line.trim() === '') continue;
+
+      let parsed: SerializedSortingEvent;
+      try {
+        parsed = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Invalid recording at line ${lineNumber}: ${(error as Error).message}`);
+      }
+      if (!Object.values(EventType).includes(parsed?.type) || typeof parsed.timestamp !== 'number') {
+        throw new Error(`Invalid recording at line ${lineNumber}: not a sorting event`);
+      }
+      events.push(parsed);
+    }
+    return events;
+  }
+
+  /*
+   * Повторная отправка событий наблюдателям контекста. Интервалы между
+   * событиями берутся из записи и делятся на speed; время отсчитывает
+   * планировщик контекста, так что с виртуальными часами всё мгновенно.
+   */
+  replay(events: SerializedSortingEvent[], context: SortingContext<T>, speed: number = 1): Promise<void> {
+    if (!(speed > 0)) {
+      return Promise.reject(new RangeError(`Replay speed must be positive, got ${speed}`));
+    }
+    if (events.length === 0) {
+      return Promise.resolve();
+    }
+
+    const scheduler = context.getScheduler();
+    const startTime = scheduler.now();
+    const firstTimestamp = events[0].timestamp;
+
+    return new Promise(resolve => {
+      events.forEach((recorded, position) => {
+        const delay = Math.max(0, (recorded.timestamp - firstTimestamp) / speed);
+
+        scheduler.schedule(() => {
+          const { element, ...rest } = recorded;
+          context.notify({
+            ...rest,
+            timestamp: startTime + delay,
+            ...(element ? { element: this.createElement(element) } : {})
+          });
+
+          if (position === events.length - 1) {
+            resolve();
+          }
+        }, delay);
+      });
+    });
+  }
+}
+
+/*
+ * Параметры HTML-отчёта
+ */
+export interface HtmlReportOptions {
+  title?: string;
+  histogramBins?: number;
+}
+
+/*
+ * Генератор самодостаточного HTML-отчёта о завершённой сортировке:
+ * таблица статистики, SVG-диаграмма размещения элементов во времени,
+ * распределение задержек и встроенный пошаговый проигрыватель событий.
+ * Отчёт не загружает внешних ресурсов.
+ */
+export class HtmlReportGenerator<T extends ISortable> {
+  private static readonly CHART_WIDTH = 640;
+  private static readonly CHART_HEIGHT = 240;
+  private static readonly MARGIN = 36;
+
+  constructor(private options: HtmlReportOptions = {}) {}
+
+  generate(events: SortingEvent<T>[], statistics: SortingStatistics): string {
+    const title = this.options.title ?? `Sorting report: ${this.findStrategy(events)}`;
+    const recording = JSON.stringify(events.map(serializeEvent)).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HtmlReportGenerator.STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<section>
+<h2>Statistics</h2>
+${this.renderStatistics(statistics)}
+</section>
+<section>
+<h2>Placement timeline</h2>
+${this.renderTimeline(events)}
+</section>
+<section>
+<h2>Delay distribution</h2>
+${this.renderHistogram(events)}
+</section>
+<section>
+<h2>Step through</h2>
+<div class="controls">
+<button id="first">&#x23EE;</button>
+<button id="prev">&#x25C0;</button>
+<button id="play">Play</button>
+<button id="next">&#x25B6;</button>
+<input id="position" type="range" min="0" value="0">
+<select id="speed"><option value="250">slow</option><option value="60" selected>normal</option><option value="10">fast</option></select>
+</div>
+<p id="caption"></p>
+<svg id="player" viewBox="0 0 ${HtmlReportGenerator.CHART_WIDTH} ${HtmlReportGenerator.CHART_HEIGHT}"></svg>
+</section>
+<script type="application/json" id="recording">${recording}</script>
+<script>${HtmlReportGenerator.PLAYER}</script>
+</body>
+</html>
+`;
+  }
+
+  /*
+   * Запись отчёта в файл
+   */
+  async writeToFile(filePath: string, events: SortingEvent<T>[], statistics: SortingStatistics): Promise<void> {
+    await fs.promises.writeFile(filePath, this.generate(events, statistics), 'utf8');
+  }
+
+  private findStrategy(events: SortingEvent<T>[]): string {
+    return events.find(event => event.type === EventType.STARTED)?.metadata?.strategy ?? 'unknown strategy';
+  }
+
+  private renderStatistics(statistics: SortingStatistics): string {
+    const rows: Array<[string, string]> = [
+      ['Duration', `${statistics.duration.toFixed(2)} ms`],
+      ['Elements sorted', `${statistics.sortedElements}`],
+      ['Total delay', `${statistics.totalDelay.toFixed(2)} ms`],
+      ['Average delay', `${statistics.averageDelay.toFixed(2)} ms`],
+      ['Inversions', `${statistics.inversions}`],
+      ['Repairs', `${statistics.repairs}`],
+      ['Comparisons', `${statistics.comparisons}`],
+      ['Swaps', `${statistics.swaps}`],
+      ['Writes', `${statistics.writes}`],
+      ...Array.from(statistics.eventCounts, ([type, count]): [string, string] => [`${type} events`, `${count}`])
+    ];
+
+    return `<table>\n${rows
+      .map(([name, value]) => `<tr><th>${escapeHtml(name)}</th><td>${escapeHtml(value)}</td></tr>`)
+      .join('\n')}\n</table>`;
+  }
+
+  /*
+   * Точки (время размещения, значение) для каждого ELEMENT_SORTED.
+   * Если все элементы размещены одновременно (классические стратегии),
+   * по горизонтали откладывается порядок размещения.
+   */
+  private renderTimeline(events: SortingEvent<T>[]): string {
+    const placed = events.filter(event => event.type === EventType.ELEMENT_SORTED && event.element);
+    if (placed.length === 0) {
+      return '<p class="empty">No elements were placed.</p>';
+    }
+
+    const startTime = events.find(event => event.type === EventType.STARTED)?.timestamp ?? placed[0].timestamp;
+    const times = placed.map(event => event.timestamp - startTime);
+    const values = placed.map(event => event.element!.getValue());
+    const byTime = times.reduce((a, b) => Math.max(a, b), 0) > 0;
+    const xs = byTime ? times : placed.map((_, position) => position);
+
+    const x = this.scale(xs);
+    const y = this.scale(values, true);
+    const points = placed.map((event, position) =>
+      `<circle cx="${x(xs[position])}" cy="${y(values[position])}" r="3">` +
+      `<title>${escapeHtml(event.element!.toString())} at ${times[position].toFixed(1)} ms (input #${event.index})</title></circle>`
+    );
+
+    return this.renderChart(points.join('\n'), byTime ? 'time since start, ms' : 'placement order', 'value', xs, values);
+  }
+
+  private renderHistogram(events: SortingEvent<T>[]): string {
+    const delays = events
+      .filter(event => event.type === EventType.ELEMENT_SORTED && event.delay !== undefined && event.delay > 0)
+      .map(event => event.delay!);
+    if (delays.length === 0) {
+      return '<p class="empty">No delays recorded (the strategy is not time-based).</p>';
+    }
+
+    const min = delays.reduce((a, b) => Math.min(a, b), Infinity);
+    const max = delays.reduce((a, b) => Math.max(a, b), -Infinity);
+    const binCount = max === min ? 1 : Math.max(1, this.options.histogramBins ?? 20);
+    const binWidth = (max - min) / binCount || 1;
+    const bins = new Array<number>(binCount).fill(0);
+    delays.forEach(delay => bins[Math.min(binCount - 1, Math.floor((delay - min) / binWidth))]++);
+
+    const { CHART_WIDTH, CHART_HEIGHT, MARGIN } = HtmlReportGenerator;
+    const top = bins.reduce((a, b) => Math.max(a, b), 0);
+    const barWidth = (CHART_WIDTH - 2 * MARGIN) / binCount;
+    const bars = bins.map((count, bin) => {
+      const height = count / top * (CHART_HEIGHT - 2 * MARGIN);
+      const from = min + bin * binWidth;
+      return `<rect x="${(MARGIN + bin * barWidth).toFixed(1)}" y="${(CHART_HEIGHT - MARGIN - height).toFixed(1)}" ` +
+        `width="${Math.max(1, barWidth - 1).toFixed(1)}" height="${height.toFixed(1)}">` +
+        `<title>${from.toFixed(1)}–${(from + binWidth).toFixed(1)} ms: ${count}</title></rect>`;
+    });
+
+    return this.renderChart(bars.join('\n'), 'delay, ms', 'elements', [min, max], [0, top]);
+  }
+
+  private renderChart(content: string, xLabel: string, yLabel: string, xs: number[], ys: number[]): string {
+    const { CHART_WIDTH, CHART_HEIGHT, MARGIN } = HtmlReportGenerator;
+    const range = (values: number[]) =>
+      `${values.reduce((a, b) => Math.min(a, b), Infinity)}…${values.reduce((a, b) => Math.max(a, b), -Infinity)}`;
+
+    return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}">
+<line class="axis" x1="${MARGIN}" y1="${CHART_HEIGHT - MARGIN}" x2="${CHART_WIDTH - MARGIN}" y2="${CHART_HEIGHT - MARGIN}"/>
+<line class="axis" x1="${MARGIN}" y1="${MARGIN}" x2="${MARGIN}" y2="${CHART_HEIGHT - MARGIN}"/>
+<text x="${CHART_WIDTH / 2}" y="${CHART_HEIGHT - 8}" text-anchor="middle">${escapeHtml(`${xLabel} (${range(xs)})`)}</text>
+<text x="12" y="${CHART_HEIGHT / 2}" text-anchor="middle" transform="rotate(-90 12 ${CHART_HEIGHT / 2})">${escapeHtml(`${yLabel} (${range(ys)})`)}</text>
+${content}
+</svg>`;
+  }
+
+  /*
+   * Отображение значений в координаты области построения
+   */
+  private scale(values: number[], vertical: boolean = false): (value: number) => string {
+    const { CHART_WIDTH, CHART_HEIGHT, MARGIN } = HtmlReportGenerator;
+    const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+    const max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+    const size = (vertical ? CHART_HEIGHT : CHART_WIDTH) - 2 * MARGIN - 8;
+
+    return value => {
+      const offset = max === min ? size / 2 : (value - min) / (max - min) * size;
+      return (vertical ? CHART_HEIGHT - MARGIN - 4 - offset : MARGIN + 4 + offset).toFixed(1);
+    };
+  }
+
+  private static readonly STYLE = `
+body { font: 14px system-ui, sans-serif; max-width: 720px; margin: 2em auto; color: #222; }
+table { border-collapse: collapse; }
+th, td { text-align: left; padding: 2px 12px 2px 0; }
+svg { width: 100%; background: #fafafa; border: 1px solid #ddd; }
+svg text { font-size: 11px; fill: #555; }
+.axis { stroke: #999; }
+circle { fill: #2a7ab0; }
+rect { fill: #2a7ab0; }
+.empty { color: #777; }
+.controls { display: flex; gap: 6px; align-items: center; }
+.controls input { flex: 1; }
+#player .working { fill: #2a7ab0; }
+#player .result { fill: #3a9d5d; }
+#player .compare { fill: #e0a800; }
+#player .write { fill: #d9534f; }
+`;
+
+  /*
+   * Проигрыватель: восстанавливает рабочий массив и результат
+   * по событиям до выбранного шага
+   */
+  private static readonly PLAYER = `
+(function () {
+  var events = JSON.parse(document.getElementById('recording').textContent);
+  var svg = document.getElementById('player');
+  var slider = document.getElementById('position');
+  var caption = document.getElementById('caption');
+  var speed = document.getElementById('speed');
+  var playButton = document.getElementById('play');
+  var timer = null;
+  var W = 640, H = 240, M = 10;
+
+  var min = Infinity, max = -Infinity;
+  events.forEach(function (e) {
+    (e.snapshot || []).concat(e.element ? [e.element.value] : []).forEach(function (v) {
+      if (v < min) min = v;
+      if (v > max) max = v;
+    });
+  });
+  slider.max = String(Math.max(0, events.length - 1));
+
+  // Состояние восстанавливается от последнего показанного шага,
+  // так что проигрывание вперёд не пересчитывает историю заново
+  var cache = { position: -1, working: [], result: [], marked: {}, markClass: '' };
+
+  function state(position) {
+    if (position < cache.position) cache = { position: -1, working: [], result: [], marked: {}, markClass: '' };
+    for (var i = cache.position + 1; i <= position && i < events.length; i++) {
+      var e = events[i];
+      cache.marked = {};
+      if (e.type === 'STARTED') { cache.working = (e.snapshot || []).slice(); cache.result = []; }
+      if (e.type === 'ELEMENT_SORTED') cache.result.push(e.element.value);
+      if (e.type === 'PARTITION' || e.type === 'PASS_COMPLETED') cache.working = e.snapshot.slice();
+      (e.changes || []).forEach(function (c) { cache.working[c.index] = c.value; });
+      if (e.type === 'COMPARE' || e.type === 'SWAP' || e.type === 'WRITE') {
+        (e.indices || []).forEach(function (index) { cache.marked[index] = true; });
+        cache.markClass = e.type === 'COMPARE' ? 'compare' : 'write';
+      }
+      cache.position = i;
+    }
+    return cache;
+  }
+
+  function bars(values, top, height, total, marked, markClass, cls) {
+    var width = (W - 2 * M) / Math.max(total, 1), out = '';
+    values.forEach(function (v, i) {
+      var h = max === min ? height : 2 + (v - min) / (max - min) * (height - 2);
+      out += '<rect class="' + (marked[i] ? markClass : cls) + '" x="' + (M + i * width) + '" y="' + (top + height - h) +
+        '" width="' + Math.max(1, width - 1) + '" height="' + h + '"></rect>';
+    });
+    return out;
+  }
+
+  function render() {
+    var position = Number(slider.value), e = events[position];
+    if (!e) { caption.textContent = 'No events recorded.'; return; }
+    var s = state(position), total = Math.max(s.working.length, s.result.length);
+    var half = (H - 3 * M) / 2;
+    svg.innerHTML = bars(s.working, M, half, total, s.marked, s.markClass, 'working') +
+      bars(s.result, 2 * M + half, half, total, {}, '', 'result');
+    caption.textContent = (position + 1) + ' / ' + events.length + ': ' + e.type +
+      (e.element ? ' ' + e.element.text : '') + (e.indices ? ' [' + e.indices.join(', ') + ']' : '') +
+      ' at ' + (e.timestamp - events[0].timestamp).toFixed(1) + ' ms';
+  }
+
+  function stop() { clearInterval(timer); timer = null; playButton.textContent = 'Play'; }
+  function go(position) { slider.value = String(Math.max(0, Math.min(events.length - 1, position))); render(); }
+
+  document.getElementById('first').onclick = function () { stop(); go(0); };
+  document.getElementById('prev').onclick = function () { stop(); go(Number(slider.value) - 1); };
+  document.getElementById('next').onclick = function () { stop(); go(Number(slider.value) + 1); };
+  slider.oninput = function () { stop(); render(); };
+  playButton.onclick = function () {
+    if (timer) { stop(); return; }
+    if (Number(slider.value) >= events.length - 1) go(0);
+    playButton.textContent = 'Pause';
+    timer = setInterval(function () {
+      if (Number(slider.value) >= events.length - 1) { stop(); return; }
+      go(Number(slider.value) + 1);
+    }, Number(speed.value));
+  };
+  render();
+})();
+`;
+}
+
+/*
+ * Экранирование текста для HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/*
+ * Абстрактная базовая стратегия сортировки
+ */
+export abstract class AbstractSortingStrategy<T extends ISortable> 
+  implements ISortingStrategy<T> {
+  
+  abstract sort(array: T[], context: SortingContext<T>, signal?: AbortSignal): Promise<T[]>;
+  abstract getName(): string;
+  abstract getDescription(): string;
+
+  protected getConfig(context: SortingContext<T>): Readonly<SortingConfig> {
+    return context.getConfig();
+  }
+
+  /*
+   * Сравнение элементов с учётом настроенного порядка сортировки
+   */
+  protected compareElements(a: T, b: T, config: Readonly<SortingConfig>): number {
+    const difference = a.getValue() - b.getValue();
+    return config.order === SortOrder.DESCENDING ? -difference : difference;
+  }
+
+  /*
+   * Проверка порядка результата: каждая инверсия соседних элементов
+   * сообщается наблюдателям, а при включённом repairInversions
+   * исправляется ограниченным числом проходов пузырьком
+   */
+  protected verifyResult(result: T[], context: SortingContext<T>): T[] {
+    const config = this.getConfig(context);
+    if (!config.verifyOrder) {
+      return result;
+    }
+
+    let inversions = 0;
+    for (let i = 1; i < result.length; i++) {
+      if (this.compareElements(result[i - 1], result[i], config) > 0) {
+        context.emitInversionDetected(result[i], i, result[i - 1]);
+        inversions++;
+      }
+    }
+
+    if (!config.repairInversions || inversions === 0) {
+      return result;
+    }
+
+    const repaired = [...result];
+    let repairs = 0;
+    let swapped = true;
+
+    for (let pass = 0; pass < config.maxRepairPasses && swapped; pass++) {
+      swapped = false;
+      for (let i = 1; i < repaired.length; i++) {
+        if (this.compareElements(repaired[i - 1], repaired[i], config) > 0) {
+          [repaired[i - 1], repaired[i]] = [repaired[i], repaired[i - 1]];
+          repairs++;
+          swapped = true;
+        }
+      }
+    }
+
+    context.recordRepairs(repairs);
+
+    if (swapped && repaired.some((element, i) => i > 0 && this.compareElements(repaired[i - 1], element, config) > 0)) {
+      throw new Error(
+        `Result still contains inversions after ${config.maxRepairPasses} repair passes`
+      );
+    }
+
+    return repaired;
+  }
+}
+
+/*
+ * Стандартная стратегия сортировки
+ */
+export class DefaultStrategy<T extends ISortable> 
+  extends AbstractSortingStrategy<T> {
+
+  @Log
+  @ValidateArray
+  @Measure
+  sort(array: T[], context: SortingContext<T>, signal?: AbortSignal): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      context.emitStarted(array.map(element => element.getValue()));
+
+      const scheduler = context.getScheduler();
+      const result: T[] = [];
+      const tasks: ScheduledTask[] = [];
+      let completedCount = 0;
+      const totalElements = array.length;
+
+      // Отмена: снимаем все ещё не сработавшие таймеры
+      const onAbort = () => {
+        tasks.forEach(task => scheduler.cancel(task));
+        context.emitCancelled(completedCount, totalElements, signal?.reason);
+        reject(new SortingAbortedError(completedCount, signal?.reason));
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      try {
+        const config = this.getConfig(context);
+        const mapper = new DelayMapper(
+          config,
+          array.map(element => element.getValue())
+        );
+
+        // Задержки отсчитываются от начала планирования, а не от момента
+        // постановки каждого таймера
+        const scheduledAt = scheduler.now();
+        this.groupElements(array, config.stable).forEach(group => {
+          const delayMs = mapper.map(group[0].element.getValue());
+          
+          tasks.push(scheduler.schedule(() => {
+            group.forEach(({ element, index }) => {
+              // Добавляем элемент в результирующий массив
+              result.push(element);
+              
+              if (config.enableLogging) {
+                getLogger().debug(`Added to result array: ${element.getValue()}`, {
+                  element: element.getValue(),
+                  index
+                });
+              }
+              
+              // Уведомление наблюдателей
+              context.emitElementSorted(element, index, delayMs);
+              
+              completedCount++;
+            });
+            
+            // Если все элементы обработаны, завершаем Promise
+            if (completedCount === totalElements) {
+              signal?.removeEventListener('abort', onAbort);
+              try {
+                const verified = this.verifyResult(result, context);
+                context.emitCompleted();
+                resolve(verified);
+              } catch (error) {
+                context.emitError(error as Error);
+                reject(error);
+              }
+            }
+          }, scheduledAt + delayMs - scheduler.now()));
+        });
+
+      } catch (error) {
+        signal?.removeEventListener('abort', onAbort);
+        context.emitError(error as Error);
+        reject(error);
+      }
+    });
+  }
+
+  /*
+   * Разбиение входа на группы, планируемые одним таймером.
+   * В стабильном режиме равные значения попадают в одну группу
+   * в порядке исходного массива, иначе у каждого элемента свой таймер.
+   */
+  private groupElements(array: T[], stable: boolean): Array<IndexedElement<T>[]> {
+    if (!stable) {
+      return array.map((element, index) => [{ element, index }]);
+    }
+
+    const groups: Map<number, IndexedElement<T>[]> = new Map();
+    array.forEach((element, index) => {
+      const group = groups.get(element.getValue()) ?? [];
+      group.push({ element, index });
+      groups.set(element.getValue(), group);
+    });
+    return Array.from(groups.values());
+  }
+
+  getName(): string {
+    return 'Default Fast Strategy (Sleep Sort)';
+  }
+
+  getDescription(): string {
+    return 'Sorts array using blazing fast algorithm. Elements are added to result array in order of completion.';
+  }
+}
+
+/*
+ * Рабочий массив классической стратегии. Все сравнения, обмены и записи
+ * выполняются через него и сообщаются наблюдателям событиями контекста.
+ */
+export class SortingWorkspace<T extends ISortable> {
+  constructor(
+    private readonly items: IndexedElement<T>[],
+    private readonly context: SortingContext<T>,
+    private readonly comparator: (a: IndexedElement<T>, b: IndexedElement<T>) => number
+  ) {}
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  getConfig(): Readonly<SortingConfig> {
+    return this.context.getConfig();
+  }
+
+  get(index: number): IndexedElement<T> {
+    return this.items[index];
+  }
+
+  toArray(): IndexedElement<T>[] {
+    return [...this.items];
+  }
+
+  compare(i: number, j: number): number {
+    return this.compareItems(this.items[i], this.items[j], i, j);
+  }
+
+  /*
+   * Сравнение элементов вне рабочего массива (например, из буфера слияния);
+   * индексы указывают позиции, откуда элементы были взяты
+   */
+  compareItems(a: IndexedElement<T>, b: IndexedElement<T>, i: number, j: number): number {
+    const result = this.comparator(a, b);
+    this.context.emitCompare(i, j, [a.element.getValue(), b.element.getValue()], result);
+    return result;
+  }
+
+  swap(i: number, j: number): void {
+    [this.items[i], this.items[j]] = [this.items[j], this.items[i]];
+    this.context.emitSwap(i, j, [
+      { index: i, value: this.items[i].element.getValue() },
+      { index: j, value: this.items[j].element.getValue() }
+    ]);
+  }
+
+  write(index: number, item: IndexedElement<T>): void {
+    this.items[index] = item;
+    this.context.emitWrite(item.element, index, { index, value: item.element.getValue() });
+  }
+
+  partitioned(pivotIndex: number, low: number, high: number): void {
+    this.context.emitPartition(pivotIndex, low, high, this.snapshot());
+  }
+
+  passCompleted(pass: number): void {
+    this.context.emitPassCompleted(pass, this.snapshot());
+  }
+
+  isSorted(): boolean {
+    for (let i = 1; i < this.items.length; i++) {
+      if (this.compare(i - 1, i) > 0) return false;
+    }
+    return true;
+  }
+
+  private snapshot(): number[] {
+    return this.items.map(item => item.element.getValue());
+  }
+}
+
+/*
+ * Базовая стратегия для классических алгоритмов, работающих без таймеров.
+ * Шаблонный метод sort() оборачивает алгоритм событиями контекста:
+ * после упорядочивания каждый элемент сообщается через ELEMENT_SORTED
+ * в итоговом порядке с его исходным индексом.
+ */
+export abstract class AbstractClassicSortingStrategy<T extends ISortable>
+  extends AbstractSortingStrategy<T> {
+
+  @Log
+  @ValidateArray
+  @Measure
+  sort(array: T[], context: SortingContext<T>, signal?: AbortSignal): Promise<T[]> {
+    context.emitStarted(array.map(element => element.getValue()));
+
+    if (signal?.aborted) {
+      context.emitCancelled(0, array.length, signal.reason);
+      return Promise.reject(new SortingAbortedError(0, signal.reason));
+    }
+
+    try {
+      const items: IndexedElement<T>[] = array.map((element, index) => ({ element, index }));
+      const config = this.getConfig(context);
+      this.sortItems(new SortingWorkspace(items, context, (a, b) => this.compare(a, b, config)));
+
+      items.forEach(({ element, index }) => context.emitElementSorted(element, index, 0));
+
+      const verified = this.verifyResult(items.map(item => item.element), context);
+      context.emitCompleted();
+      return Promise.resolve(verified);
+    } catch (error) {
+      context.emitError(error as Error);
+      return Promise.reject(error);
+    }
+  }
+
+  /*
+   * Упорядочивание рабочего массива на месте
+   */
+  protected abstract sortItems(workspace: SortingWorkspace<T>): void;
+
+  /*
+   * Сравнение с учётом порядка сортировки; в стабильном режиме
+   * равные элементы упорядочиваются по исходному индексу
+   */
+  protected compare(a: IndexedElement<T>, b: IndexedElement<T>, config: Readonly<SortingConfig>): number {
+    const result = this.compareElements(a.element, b.element, config);
+    if (result !== 0 || !config.stable) {
+      return result;
+    }
+    return a.index - b.index;
+  }
+}
+
+/*
+ * Сортировка слиянием
+ */
+export class MergeSortStrategy<T extends ISortable>
+  extends AbstractClassicSortingStrategy<T> {
+
+  protected sortItems(workspace: SortingWorkspace<T>): void {
+    this.mergeSort(workspace, 0, workspace.length - 1, { pass: 0 });
+  }
+
+  private mergeSort(workspace: SortingWorkspace<T>, low: number, high: number, counter: { pass: number }): void {
+    if (low >= high) return;
+
+    const middle = Math.floor((low + high) / 2);
+    this.mergeSort(workspace, low, middle, counter);
+    this.mergeSort(workspace, middle + 1, high, counter);
+
+    const buffer: IndexedElement<T>[] = [];
+    for (let i = low; i <= high; i++) {
+      buffer.push(workspace.get(i));
+    }
+
+    let left = low;
+    let right = middle + 1;
+    for (let i = low; i <= high; i++) {
+      if (left <= middle && (right > high || workspace.compareItems(buffer[left - low], buffer[right - low], left, right) <= 0)) {
+        workspace.write(i, buffer[left++ - low]);
+      } else {
+        workspace.write(i, buffer[right++ - low]);
+      }
+    }
+
+    workspace.passCompleted(++counter.pass);
+  }
+
+  getName(): string {
+    return 'Merge Sort Strategy';
+  }
+
+  getDescription(): string {
+    return 'Stable divide and conquer sort merging sorted halves. O(n log n) time, O(n) memory.';
+  }
+}
+
+/*
+ * Быстрая сортировка (схема Ломуто со средним опорным элементом)
+ */
+export class QuickSortStrategy<T extends ISortable>
+  extends AbstractClassicSortingStrategy<T> {
+
+  protected sortItems(workspace: SortingWorkspace<T>): void {
+    this.quickSort(workspace, 0, workspace.length - 1);
+  }
+
+  private quickSort(workspace: SortingWorkspace<T>, low: number, high: number): void {
+    if (low >= high) return;
+
+    const pivotIndex = this.partition(workspace, low, high);
+    this.quickSort(workspace, low, pivotIndex - 1);
+    this.quickSort(workspace, pivotIndex + 1, high);
+  }
+
+  private partition(workspace: SortingWorkspace<T>, low: number, high: number): number {
+    workspace.swap(Math.floor((low + high) / 2), high);
+
+    let store = low;
+    for (let i = low; i < high; i++) {
+      if (workspace.compare(i, high) < 0) {
+        workspace.swap(i, store++);
+      }
+    }
+    workspace.swap(store, high);
+    workspace.partitioned(store, low, high);
+    return store;
+  }
+
+  getName(): string {
+    return 'Quick Sort Strategy';
+  }
+
+  getDescription(): string {
+    return 'Partition based sort around a middle pivot. O(n log n) on average, O(n^2) in the worst case.';
+  }
+}
+
+/*
+ * Пирамидальная сортировка
+ */
+export class HeapSortStrategy<T extends ISortable>
+  extends AbstractClassicSortingStrategy<T> {
+
+  protected sortItems(workspace: SortingWorkspace<T>): void {
+    for (let i = Math.floor(workspace.length / 2) - 1; i >= 0; i--) {
+      this.siftDown(workspace, i, workspace.length);
+    }
+
+    for (let end = workspace.length - 1; end > 0; end--) {
+      workspace.swap(0, end);
+      this.siftDown(workspace, 0, end);
+      workspace.passCompleted(workspace.length - end);
+    }
+  }
+
+  private siftDown(workspace: SortingWorkspace<T>, root: number, size: number): void {
+    while (true) {
+      const left = 2 * root + 1;
+      const right = left + 1;
+      let largest = root;
+
+      if (left < size && workspace.compare(left, largest) > 0) {
+        largest = left;
+      }
+      if (right < size && workspace.compare(right, largest) > 0) {
+        largest = right;
+      }
+      if (largest === root) return;
+
+      workspace.swap(root, largest);
+      root = largest;
+    }
+  }
+
+  getName(): string {
+    return 'Heap Sort Strategy';
+  }
+
+  getDescription(): string {
+    return 'In-place sort using a binary max-heap. O(n log n) time, O(1) memory.';
+  }
+}
+
+/*
+ * Сортировка вставками
+ */
+export class InsertionSortStrategy<T extends ISortable>
+  extends AbstractClassicSortingStrategy<T> {
+
+  protected sortItems(workspace: SortingWorkspace<T>): void {
+    for (let i = 1; i < workspace.length; i++) {
+      for (let j = i; j > 0 && workspace.compare(j - 1, j) > 0; j--) {
+        workspace.swap(j - 1, j);
+      }
+      workspace.passCompleted(i);
+    }
+  }
+
+  getName(): string {
+    return 'Insertion Sort Strategy';
+  }
+
+  getDescription(): string {
+    return 'Stable sort inserting each element into the sorted prefix. O(n^2) time, fast on nearly sorted input.';
+  }
+}
+
+/*
+ * Базовая стратегия для сортировок по целочисленным ключам
+ */
+export abstract class AbstractIntegerKeyStrategy<T extends ISortable>
+  extends AbstractClassicSortingStrategy<T> {
+
+  /*
+   * Ключ с учётом порядка: для убывания берётся противоположное значение
+   */
+  protected getKey(item: IndexedElement<T>, config: Readonly<SortingConfig>): number {
+    const value = item.element.getValue();
+    if (!Number.isSafeInteger(value)) {
+      throw new RangeError(`${this.getName()} requires integer values, got ${value}`);
+    }
+    return config.order === SortOrder.DESCENDING ? -value : value;
+  }
+
+  protected getMinKey(items: IndexedElement<T>[], config: Readonly<SortingConfig>): number {
+    return items.reduce((min, item) => Math.min(min, this.getKey(item, config)), Infinity);
+  }
+
+  /*
+   * Запись содержимого корзин обратно в рабочий массив
+   */
+  protected writeBuckets(workspace: SortingWorkspace<T>, buckets: IndexedElement<T>[][]): void {
+    let position = 0;
+    buckets.forEach(bucket => bucket.forEach(item => {
+      workspace.write(position++, item);
+    }));
+  }
+}
+
+/*
+ * Сортировка подсчётом
+ */
+export class CountingSortStrategy<T extends ISortable>
+  extends AbstractIntegerKeyStrategy<T> {
+
+  private static readonly MAX_RANGE = 10_000_000;
+
+  protected sortItems(workspace: SortingWorkspace<T>): void {
+    const config = workspace.getConfig();
+    const items = workspace.toArray();
+    const min = this.getMinKey(items, config);
+    const max = items.reduce((max, item) => Math.max(max, this.getKey(item, config)), -Infinity);
+
+    if (max - min > CountingSortStrategy.MAX_RANGE) {
+      throw new RangeError(
+        `${this.getName()} supports value ranges up to ${CountingSortStrategy.MAX_RANGE}, got ${max - min}`
+      );
+    }
+
+    const buckets: IndexedElement<T>[][] = Array.from({ length: max - min + 1 }, () => []);
+    items.forEach(item => buckets[this.getKey(item, config) - min].push(item));
+
+    this.writeBuckets(workspace, buckets);
+    workspace.passCompleted(1);
+  }
+
+  getName(): string {
+    return 'Counting Sort Strategy';
+  }
+
+  getDescription(): string {
+    return 'Stable non-comparison sort for integers. O(n + k) time where k is the value range.';
+  }
+}
+
+/*
+ * Поразрядная сортировка (LSD, основание 10)
+ */
+export class RadixSortStrategy<T extends ISortable>
+  extends AbstractIntegerKeyStrategy<T> {
+
+  private static readonly BASE = 10;
+
+  protected sortItems(workspace: SortingWorkspace<T>): void {
+    const config = workspace.getConfig();
+    const min = this.getMinKey(workspace.toArray(), config);
+    const maxOffset = workspace.toArray().reduce((max, item) => Math.max(max, this.getKey(item, config) - min), 0);
+
+    let pass = 0;
+    for (let exponent = 1; Math.floor(maxOffset / exponent) > 0; exponent *= RadixSortStrategy.BASE) {
+      const buckets: IndexedElement<T>[][] = Array.from({ length: RadixSortStrategy.BASE }, () => []);
+      workspace.toArray().forEach(item => {
+        const digit = Math.floor((this.getKey(item, config) - min) / exponent) % RadixSortStrategy.BASE;
+        buckets[digit].push(item);
+      });
+
+      this.writeBuckets(workspace, buckets);
+      workspace.passCompleted(++pass);
+    }
+  }
+
+  getName(): string {
+    return 'Radix Sort Strategy';
+  }
+
+  getDescription(): string {
+    return 'Stable least-significant-digit sort for integers. O(d * n) time for d decimal digits.';
+  }
+}
+
+/*
+ * Случайная сортировка: перемешивание до тех пор, пока не повезёт
+ */
+export class BogoSortStrategy<T extends ISortable>
+  extends AbstractClassicSortingStrategy<T> {
+
+  private static readonly MAX_ATTEMPTS = 1_000_000;
+
+  protected sortItems(workspace: SortingWorkspace<T>): void {
+    for (let attempt = 0; attempt < BogoSortStrategy.MAX_ATTEMPTS; attempt++) {
+      if (workspace.isSorted()) return;
+
+      for (let i = workspace.length - 1; i > 0; i--) {
+        workspace.swap(i, Math.floor(Math.random() * (i + 1)));
+      }
+      workspace.passCompleted(attempt + 1);
+    }
+
+    throw new Error(`${this.getName()} gave up after ${BogoSortStrategy.MAX_ATTEMPTS} shuffles`);
+  }
+
+  getName(): string {
+    return 'Bogo Sort Strategy';
+  }
+
+  getDescription(): string {
+    return 'Shuffles the array until it happens to be sorted. O(n * n!) expected time, gives up eventually.';
+  }
+}
+
+/*
+ * Сортировка по частям (Stooge sort)
+ */
+export class StoogeSortStrategy<T extends ISortable>
+  extends AbstractClassicSortingStrategy<T> {
+
+  protected sortItems(workspace: SortingWorkspace<T>): void {
+    this.stoogeSort(workspace, 0, workspace.length - 1);
+  }
+
+  private stoogeSort(workspace: SortingWorkspace<T>, low: number, high: number): void {
+    if (workspace.compare(low, high) > 0) {
+      workspace.swap(low, high);
+    }
+
+    if (high - low + 1 > 2) {
+      const third = Math.floor((high - low + 1) / 3);
+      this.stoogeSort(workspace, low, high - third);
+      this.stoogeSort(workspace, low + third, high);
+      this.stoogeSort(workspace, low, high - third);
+    }
+  }
+
+  getName(): string {
+    return 'Stooge Sort Strategy';
+  }
+
+  getDescription(): string {
+    return 'Recursively sorts the first two thirds, the last two thirds, then the first two thirds again. O(n^2.71) time.';
+  }
+}
+
+/*
+ * Конкретная фабрика стратегий сортировки
+ */
+export class ConcreteSortingStrategyFactory<T extends ISortable>
+  implements ISortingStrategyFactory<T> {
+  
+  private strategies: Map<string, { strategy: ISortingStrategy<T>; traits: StrategyTraits }> = new Map();
+
+  constructor() {
+    this.registerStrategy(StrategyType.DEFAULT, new DefaultStrategy<T>(), {
+      stable: false, complexity: 'O(n + max delay)', timeBased: true
+    });
+    this.registerStrategy(StrategyType.MERGE, new MergeSortStrategy<T>(), {
+      stable: true, complexity: 'O(n log n)'
+    });
+    this.registerStrategy(StrategyType.QUICK, new QuickSortStrategy<T>(), {
+      stable: false, complexity: 'O(n log n)'
+    });
+    this.registerStrategy(StrategyType.HEAP, new HeapSortStrategy<T>(), {
+      stable: false, complexity: 'O(n log n)'
+    });
+    this.registerStrategy(StrategyType.INSERTION, new InsertionSortStrategy<T>(), {
+      stable: true, complexity: 'O(n^2)'
+    });
+    this.registerStrategy(StrategyType.COUNTING, new CountingSortStrategy<T>(), {
+      stable: true, complexity: 'O(n + k)'
+    });
+    this.registerStrategy(StrategyType.RADIX, new RadixSortStrategy<T>(), {
+      stable: true, complexity: 'O(d * n)'
+    });
+    this.registerStrategy(StrategyType.BOGO, new BogoSortStrategy<T>(), {
+      stable: false, complexity: 'O(n * n!)'
+    });
+    this.registerStrategy(StrategyType.STOOGE, new StoogeSortStrategy<T>(), {
+      stable: false, complexity: 'O(n^2.71)'
+    });
+  }
+
+  createStrategy(id: string): ISortingStrategy<T> {
+    const entry = this.strategies.get(id);
+    
+    if (!entry) {
+      throw new Error(
+        `Strategy '${id}' not found. Available: ${Array.from(this.strategies.keys()).join(', ')}`
+      );
+    }
+
+    return entry.strategy;
+  }
+
+  registerStrategy(id: string, strategy: ISortingStrategy<T>, traits: Partial<StrategyTraits> = {}): void {
+    if (this.strategies.has(id)) {
+      throw new DuplicateStrategyError(id);
+    }
+
+    this.strategies.set(id, {
+      strategy,
+      traits: {
+        stable: false,
+        complexity: 'unknown',
+        timeBased: false,
+        ...traits
+      }
+    });
+  }
+
+  unregisterStrategy(id: string): boolean {
+    return this.strategies.delete(id);
+  }
+
+  listAvailableStrategies(): StrategyMetadata[] {
+    return Array.from(this.strategies.entries()).map(([id, { strategy, traits }]) => ({
+      id,
+      name: strategy.getName(),
+      description: strategy.getDescription(),
+      ...traits
+    }));
+  }
+
+  hasStrategy(id: string): boolean {
+    return this.strategies.has(id);
+  }
+
+  /*
+   * Загрузка модуля со стратегиями по пути (относительно рабочего каталога)
+   * или имени пакета. Возвращает идентификаторы добавленных стратегий.
+   */
+  async loadPlugin(modulePath: string): Promise<string[]> {
+    const specifier = modulePath.startsWith('.') ? path.resolve(modulePath) : modulePath;
+
+    let loaded: any;
+    try {
+      loaded = await import(specifier);
+    } catch (error) {
+      throw new StrategyPluginError(modulePath, (error as Error).message);
+    }
+
+    const plugin: IStrategyPlugin<T> | undefined = [loaded?.default, loaded?.plugin, loaded?.default?.plugin, loaded]
+      .find(candidate => typeof candidate?.register === 'function');
+
+    if (!plugin) {
+      throw new StrategyPluginError(modulePath, 'module does not export a plugin with register()');
+    }
+
+    const before = new Set(this.strategies.keys());
+    plugin.register(this);
+    return Array.from(this.strategies.keys()).filter(id => !before.has(id));
+  }
+}
+
+/*
+ * Построитель для создания сортировщика
+ */
+export class SorterBuilder<T extends ISortable> {
+  private array?: T[];
+  private strategy?: ISortingStrategy<T>;
+  private observers: IObserver<T>[] = [];
+  private config?: Partial<SortingConfig>;
+  private scheduler?: IScheduler;
+  private workerOptions?: WorkerExecutionOptions;
+  private source?: AsyncIterable<T> | Iterable<T>;
+  private enableDefaultObservers: boolean = true;
+
+  /*
+   * Построитель для значений, не реализующих ISortable: ключ каждого
+   * значения берётся извлекателем, результат разворачивается через
+   * KeyedSortable.unwrap()
+   */
+  static forValues<V>(values: V[], extractKey: KeyExtractor<V>): SorterBuilder<KeyedSortable<V>> {
+    return new SorterBuilder<KeyedSortable<V>>().setArray(KeyedSortable.wrap(values, extractKey));
+  }
+
+  setArray(array: T[]): this {
+    this.array = array;
+    this.source = undefined;
+    return this;
+  }
+
+  /*
+   * Источник элементов вместо готового массива, например поток
+   * или асинхронный генератор. Сортировка начинается, когда источник
+   * исчерпан: время ожидания зависит от всех значений сразу.
+   */
+  setSource(source: AsyncIterable<T> | Iterable<T>): this {
+    this.source = source;
+    this.array = undefined;
+    return this;
+  }
+
+  setStrategy(strategy: ISortingStrategy<T>): this {
+    this.strategy = strategy;
+    return this;
+  }
+
+  addObserver(observer: IObserver<T>): this {
+    this.observers.push(observer);
+    return this;
+  }
+
+  setConfig(config: Partial<SortingConfig>): this {
+    this.config = config;
+    return this;
+  }
+
+  setScheduler(scheduler: IScheduler): this {
+    this.scheduler = scheduler;
+    return this;
+  }
+
+  /*
+   * Выполнение стратегии в рабочем потоке; strategyId должен
+   * указывать ту же стратегию, что и setStrategy()
+   */
+  setWorker(options: WorkerExecutionOptions): this {
+    this.workerOptions = options;
+    return this;
+  }
+
+  disableDefaultObservers(): this {
+    this.enableDefaultObservers = false;
+    return this;
+  }
+
+  build(): ArraySorter<T> {
+    if (!this.array && this.source && Symbol.iterator in this.source) {
+      this.array = Array.from(this.source);
+    }
+    if (!this.array) {
+      throw new Error(this.source
+        ? 'Asynchronous source requires buildAsync()'
+        : 'Array is required to build sorter');
+    }
+    if (!this.strategy) {
+      throw new Error('Strategy is required to build sorter');
+    }
+
+    // Собственная конфигурация сортировщика поверх глобальной
+    const config = ConfigurationManager.getInstance().createScopedConfig(this.config);
+    const scheduler = this.scheduler ?? createScheduler(config.clock);
+
+    const sorter = new ArraySorter(this.array, this.strategy, scheduler, config, this.workerOptions);
+
+    // Добавление наблюдателей по умолчанию
+    if (this.enableDefaultObservers) {
+      sorter.addObserver(new ConsoleLoggingObserver<T>(config));
+    }
+
+    // Добавление пользовательских наблюдателей
+    this.observers.forEach(observer => sorter.addObserver(observer));
+
+    return sorter;
+  }
+
+  /*
+   * Сборка после чтения всего источника
+   */
+  async buildAsync(): Promise<ArraySorter<T>> {
+    if (!this.array && this.source) {
+      const elements: T[] = [];
+      for await (const element of this.source) {
+        elements.push(element);
+      }
+      this.array = elements;
+    }
+    return this.build();
+  }
+
+  reset(): this {
+    this.array = undefined;
+    this.source = undefined;
+    this.strategy = undefined;
+    this.observers = [];
+    this.config = undefined;
+    this.scheduler = undefined;
+    this.workerOptions = undefined;
+    this.enableDefaultObservers = true;
+    return this;
+  }
+}
+
+
+/*
+ * Управление выполняющейся сортировкой: пауза, возобновление и пошаговый режим
+ */
+export class SortingController<T extends ISortable> {
+  constructor(
+    private scheduler: PausableScheduler,
+    private context: SortingContext<T>
+  ) {}
+
+  pause(): void {
+    if (this.scheduler.isPaused()) return;
+    this.scheduler.pause();
+    this.context.emitPaused(this.scheduler.getPendingCount());
+  }
+
+  resume(): void {
+    if (!this.scheduler.isPaused()) return;
+    this.scheduler.resume();
+    this.context.emitResumed(this.scheduler.getPendingCount());
+  }
+
+  /*
+   * Выполняет ближайшую отложенную задачу (одно событие ELEMENT_SORTED
+   * для стратегии сна). Работает только на паузе.
+   */
+  step(): boolean {
+    const pending = this.scheduler.getPendingCount();
+    if (!this.scheduler.isPaused() || pending === 0) return false;
+    this.context.emitStepped(pending - 1);
+    return this.scheduler.step();
+  }
+
+  isPaused(): boolean {
+    return this.scheduler.isPaused();
+  }
+
+  getPendingCount(): number {
+    return this.scheduler.getPendingCount();
+  }
+}
+
+/*
+ * Основной класс (фасад) сортировщика массива
+ */
+export class ArraySorter<T extends ISortable> {
+  private context: SortingContext<T>;
+  private controller: SortingController<T>;
+
+  constructor(
+    private array: T[],
+    private strategy: ISortingStrategy<T>,
+    private scheduler: IScheduler = new RealTimeScheduler(),
+    config: Readonly<SortingConfig> = ConfigurationManager.getInstance().getConfig(),
+    private workerOptions?: WorkerExecutionOptions
+  ) {
+    const pausable = new PausableScheduler(scheduler);
+    this.context = new SortingContext(strategy.getName(), pausable, config);
+    this.controller = new SortingController(pausable, this.context);
+  }
+
+  addObserver(observer: IObserver<T>): void {
+    this.context.attach(observer);
+  }
+
+  removeObserver(observer: IObserver<T>): void {
+    this.context.detach(observer);
+  }
+
+  @Measure
+  async execute(options: ExecuteOptions = {}): Promise<T[]> {
+    const logger = getLogger();
+    const enableLogging = this.context.getConfig().enableLogging;
+
+    if (enableLogging) {
+      logger.info('\n' + '='.repeat(70));
+      logger.info(`🔄 ${this.strategy.getName()}`);
+      logger.info('='.repeat(70));
+      logger.info(`📝 ${this.strategy.getDescription()}`);
+      logger.info(`📥 Input array: [${this.array.map(x => x.getValue()).join(', ')}]`);
+      logger.info('='.repeat(70));
+    }
+
+    const result = await this.runStrategy(options);
+    
+    if (enableLogging) {
+      logger.info('\n' + '='.repeat(70));
+      logger.info(`✅ Sorted result: [${result.map(x => x.getValue()).join(', ')}]`);
+      logger.info('='.repeat(70));
+    }
+    
+    return result;
+  }
+
+  getContext(): SortingContext<T> {
+    return this.context;
+  }
+
+  getArray(): T[] {
+    return [...this.array];
+  }
+
+  setArray(array: T[]): void {
+    this.array = [...array];
+  }
+
+  getController(): SortingController<T> {
+    return this.controller;
+  }
+
+  getConfig(): Readonly<SortingConfig> {
+    return this.context.getConfig();
+  }
+
+  /*
+   * Запуск стратегии с общим сигналом отмены, объединяющим
+   * внешний AbortSignal и таймаут выполнения
+   */
+  private async runStrategy(options: ExecuteOptions): Promise<T[]> {
+    const { signal, timeoutMs } = options;
+    // Таймаут ставится мимо PausableScheduler: он истекает и на паузе,
+    // не выполняется через step() и не входит в число ожидающих задач
+    const scheduler = this.scheduler;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+
+    if (signal?.aborted) {
+      controller.abort(signal.reason);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const timeoutTask = timeoutMs !== undefined
+      ? scheduler.schedule(() => controller.abort(new SortingTimeoutError(timeoutMs)), timeoutMs)
+      : undefined;
+
+    try {
+      return this.workerOptions
+        ? await this.runInWorker(this.workerOptions, controller.signal)
+        : await this.strategy.sort([...this.array], this.context, controller.signal);
+    } finally {
+      if (timeoutTask) {
+        scheduler.cancel(timeoutTask);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  getEventHistory(): SortingEvent<T>[] {
+    return this.context.getEventHistory();
+  }
+
+  /*
+   * Элементы в порядке размещения, не дожидаясь конца сортировки.
+   * Если потребитель прекращает чтение раньше, сортировка прерывается.
+   * С repairInversions порядок размещения может быть исправлен
+   * после завершения, поэтому элементы выдаются только в конце.
+   * Элементы результата, о размещении которых стратегия не сообщила,
+   * выдаются после завершения в порядке результата.
+   */
+  async *stream(options: ExecuteOptions = {}): AsyncGenerator<T, void, undefined> {
+    const placed: T[] = [];
+    const streamed: Map<T, number> = new Map();
+    const incremental = !this.context.getConfig().repairInversions;
+    let wake: (() => void) | undefined;
+    let done = false;
+    let failure: { error: unknown } | undefined;
+
+    const observer: IObserver<T> = {
+      update: event => {
+        if (incremental && event.type === EventType.ELEMENT_SORTED && event.element) {
+          placed.push(event.element);
+          streamed.set(event.element, (streamed.get(event.element) ?? 0) + 1);
+          wake?.();
+        }
+      }
+    };
+
+    const { signal } = options;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    this.addObserver(observer);
+
+    const run = this.execute({ ...options, signal: controller.signal })
+      .then(
+        result => {
+          result.forEach(element => {
+            const count = streamed.get(element) ?? 0;
+            if (count > 0) {
+              streamed.set(element, count - 1);
+            } else {
+              placed.push(element);
+            }
+          });
+        },
+        error => {
+          failure = { error };
+        }
+      )
+      .finally(() => {
+        done = true;
+        wake?.();
+      });
+
+    try {
+      while (true) {
+        if (placed.length > 0) {
+          yield placed.shift()!;
+        } else if (done) {
+          break;
+        } else {
+          await new Promise<void>(resolve => wake = resolve);
+          wake = undefined;
+        }
+      }
+      if (failure) {
+        throw failure.error;
+      }
+    } finally {
+      if (!done) {
+        controller.abort(new Error('Result stream closed by consumer'));
+      }
+      await run;
+      this.removeObserver(observer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /*
+   * Поток Node в объектном режиме поверх stream()
+   */
+  createReadStream(options: ExecuteOptions = {}): Readable {
+    return Readable.from(this.stream(options));
+  }
+
+  /*
+   * Сортировка в рабочем потоке. Элементы передаются как значения,
+   * события потока пересылаются наблюдателям этого контекста в исходном
+   * порядке с подстановкой исходных элементов. Отмена и таймаут
+   * останавливают поток; пауза и шаги контроллера на поток не действуют.
+   */
+  private runInWorker(options: WorkerExecutionOptions, signal: AbortSignal): Promise<T[]> {
+    const input = [...this.array];
+    const workerData: SortingWorkerData = {
+      strategyId: options.strategyId,
+      plugins: options.plugins ?? [],
+      config: { ...this.context.getConfig() },
+      elements: input.map(element => ({ value: element.getValue(), text: element.toString() }))
+    };
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      const settle = (complete: () => void) => {
+        if (settled) return;
+        settled = true;
+        signal.removeEventListener('abort', onAbort);
+        void worker.terminate();
+        complete();
+      };
+      const onAbort = () => settle(() => {
+        const placed = this.context.getElementCount();
+        this.context.emitCancelled(placed, input.length, signal.reason);
+        reject(new SortingAbortedError(placed, signal.reason));
+      });
+
+      // Время запуска включает старт потока
+      this.context.beginRun();
+      const worker = new Worker(resolveWorkerScript(options), { workerData });
+
+      worker.on('message', (message: SortingWorkerMessage) => {
+        if (settled) return;
+
+        switch (message.type) {
+          case 'events':
+            message.events.forEach(({ event: { element, ...event }, elementIndex }) => {
+              this.context.notifyForwarded(elementIndex !== undefined ? { ...event, element: input[elementIndex] } : event);
+            });
+            break;
+          case 'result':
+            settle(() => resolve(message.order.map(index => input[index])));
+            break;
+          case 'error':
+            settle(() => reject(createWorkerError(message.name, message.message)));
+            break;
+        }
+      });
+      worker.on('error', error => settle(() => reject(error)));
+      worker.on('exit', code => settle(() => reject(new Error(`Sorting worker exited with code ${code}`))));
+
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+}
+
+/*
+ * Путь к скрипту рабочего потока: явный или собранный worker.js
+ * рядом с этим модулем
+ */
+export function resolveWorkerScript(options: WorkerExecutionOptions): string {
+  if (options.workerScript !== undefined) {
+    return path.resolve(options.workerScript);
+  }
+  if (typeof __dirname === 'undefined') {
+    throw new Error('Cannot locate the sorting worker script in an ES module build, pass workerScript');
+  }
+  return path.join(__dirname, 'worker.js');
+}
+
+/*
+ * Восстановление ошибки рабочего потока с сохранением её класса,
+ * если это одна из ошибок библиотеки или стандартная
+ */
+export function createWorkerError(name: string, message: string): Error {
+  switch (name) {
+    case 'ArrayValidationError':
+      return new ArrayValidationError(message);
+    case 'TypeError':
+      return new TypeError(message);
+    case 'RangeError':
+      return new RangeError(message);
+    default: {
+      const error = new Error(message);
+      error.name = name;
+      return error;
+    }
+  }
+}
+
+/*
+ * Интерфейс команды управления сортировкой. Команды с undo()
+ * можно отменять через CommandInvoker и включать в пакеты.
+ */
+export interface ICommand {
+  execute(): Promise<any>;
+  undo?(): Promise<void>;
+  getDescription(): string;
+}
+
+/*
+ * Команда для запуска сортировки. Результат становится
+ * новым массивом сортировщика; отмена возвращает исходный.
+ */
+export class ExecuteSortingCommand<T extends ISortable> implements ICommand {
+  private previousArray?: T[];
+
+  constructor(
+    private sorter: ArraySorter<T>,
+    private options: ExecuteOptions = {}
+  ) {}
+
+  async execute(): Promise<T[]> {
+    const previous = this.sorter.getArray();
+    const result = await this.sorter.execute(this.options);
+    this.previousArray = previous;
+    this.sorter.setArray(result);
+    return result;
+  }
+
+  async undo(): Promise<void> {
+    if (this.previousArray) {
+      this.sorter.setArray(this.previousArray);
+      this.previousArray = undefined;
+    }
+  }
+
+  getDescription(): string {
+    return 'Execute array sorting';
+  }
+}
+
+/*
+ * Команда для обновления конфигурации. Отмена возвращает
+ * прежние значения изменённых параметров вместе с их источниками.
+ */
+export class UpdateConfigCommand implements ICommand {
+  private previousEntries?: ConfigEntry[];
+
+  constructor(private config: Partial<SortingConfig>) {}
+
+  async execute(): Promise<void> {
+    const manager = ConfigurationManager.getInstance();
+    const previous = manager.describeConfig().filter(({ key }) => this.config[key] !== undefined);
+    manager.updateConfig(this.config);
+    this.previousEntries = previous;
+    getLogger().info('✅ Configuration updated', { config: this.config });
+  }
+
+  async undo(): Promise<void> {
+    if (!this.previousEntries) return;
+
+    const manager = ConfigurationManager.getInstance();
+    const bySource = new Map<string, Partial<SortingConfig>>();
+    this.previousEntries.forEach(({ key, value, source }) => {
+      bySource.set(source, { ...bySource.get(source), [key]: value });
+    });
+    bySource.forEach((values, source) => manager.updateConfig(values, source));
+
+    this.previousEntries = undefined;
+    getLogger().info('↩️  Configuration restored', { config: this.config });
+  }
+
+  getDescription(): string {
+    return 'Update sorting configuration';
+  }
+}
+
+/*
+ * Пакет команд, выполняемый как транзакция: при ошибке уже выполненные
+ * команды пакета отменяются в обратном порядке. Отмена пакета
+ * отменяет все его команды.
+ */
+export class BatchCommand implements ICommand {
+  private executed: ICommand[] = [];
+
+  constructor(
+    private commands: ICommand[],
+    private description: string = `Batch of ${commands.length} command(s)`
+  ) {
+    const irreversible = commands.find(command => !command.undo);
+    if (irreversible) {
+      throw new TypeError(`Command '${irreversible.getDescription()}' cannot be undone and cannot be part of a batch`);
+    }
+  }
+
+  async execute(): Promise<any[]> {
+    const results: any[] = [];
+    this.executed = [];
+
+    for (const command of this.commands) {
+      try {
+        results.push(await command.execute());
+        this.executed.push(command);
+      } catch (error) {
+        const rollbackErrors = await this.rollback();
+        throw new BatchExecutionError(command, error, results.length, rollbackErrors);
+      }
+    }
+    return results;
+  }
+
+  async undo(): Promise<void> {
+    const errors = await this.rollback();
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  getDescription(): string {
+    return this.description;
+  }
+
+  getCommands(): ICommand[] {
+    return [...this.commands];
+  }
+
+  /*
+   * Отмена выполненных команд в обратном порядке; ошибки отмены
+   * собираются, чтобы откатить остальные команды
+   */
+  private async rollback(): Promise<unknown[]> {
+    const errors: unknown[] = [];
+    while (this.executed.length > 0) {
+      const command = this.executed.pop()!;
+      try {
+        await command.undo!();
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+    return errors;
+  }
+}
+
+/*
+ * Действие после окончательной ошибки команды
+ */
+export enum FailureAction {
+  STOP = 'stop',   // Остановить очередь; остальные команды остаются в ней
+  SKIP = 'skip'    // Записать ошибку и перейти к следующей команде
+}
+
+/*
+ * Политика обработки ошибок команды: число повторов с экспоненциальной
+ * задержкой и действие, когда повторы исчерпаны
+ */
+export interface ErrorPolicy {
+  retries: number;
+  backoffMs: number;
+  backoffFactor: number;
+  maxBackoffMs: number;
+  onFailure: FailureAction;
+}
+
+/*
+ * Готовые политики обработки ошибок
+ */
+export class ErrorPolicies {
+  static stop(): ErrorPolicy {
+    return { retries: 0, backoffMs: 0, backoffFactor: 1, maxBackoffMs: 0, onFailure: FailureAction.STOP };
+  }
+
+  static skip(): ErrorPolicy {
+    return { ...ErrorPolicies.stop(), onFailure: FailureAction.SKIP };
+  }
+
+  /*
+   * Повтор с задержкой backoffMs * backoffFactor^(попытка - 1),
+   * не больше maxBackoffMs
+   */
+  static retry(
+    retries: number,
+    options: Partial<Omit<ErrorPolicy, 'retries'>> = {}
+  ): ErrorPolicy {
+    if (!Number.isInteger(retries) || retries < 0) {
+      throw new RangeError(`Retry count must be a non-negative integer, got ${retries}`);
+    }
+    return {
+      retries,
+      backoffMs: options.backoffMs ?? 100,
+      backoffFactor: options.backoffFactor ?? 2,
+      maxBackoffMs: options.maxBackoffMs ?? 30_000,
+      onFailure: options.onFailure ?? FailureAction.STOP
+    };
+  }
+}
+
+/*
+ * Итог выполнения команды
+ */
+export enum CommandStatus {
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed'
+}
+
+export interface CommandResult<R = any> {
+  command: ICommand;
+  status: CommandStatus;
+  result?: R;
+  error?: unknown;
+  attempts: number;
+  durationMs: number;       // По часам планировщика invoker'а, включая задержки между попытками
+  action?: FailureAction;   // Для неудачных команд
+}
+
+/*
+ * События выполнения команд
+ */
+export enum CommandEventType {
+  STARTED = 'COMMAND_STARTED',
+  SUCCEEDED = 'COMMAND_SUCCEEDED',
+  RETRYING = 'COMMAND_RETRYING',
+  FAILED = 'COMMAND_FAILED'
+}
+
+export interface CommandEvent {
+  type: CommandEventType;
+  command: ICommand;
+  attempt: number;
+  timestamp: number;
+  durationMs?: number;
+  error?: unknown;
+  delayMs?: number;          // Задержка перед следующей попыткой (RETRYING)
+  action?: FailureAction;    // Что invoker делает дальше (FAILED)
+}
+
+/*
+ * Наблюдатель за выполнением команд
+ */
+export interface ICommandObserver {
+  update(event: CommandEvent): void;
+}
+
+/*
+ * Invoker для команд с историей отмены и повтора и политиками
+ * обработки ошибок
+ */
+export class CommandInvoker {
+  private commandQueue: Array<{ command: ICommand; policy: ErrorPolicy }> = [];
+  private executedCommands: ICommand[] = [];
+  private undoStack: ICommand[] = [];
+  private redoStack: ICommand[] = [];
+  private observers: Set<ICommandObserver> = new Set();
+
+  constructor(
+    private defaultPolicy: ErrorPolicy = ErrorPolicies.stop(),
+    private scheduler: IScheduler = new RealTimeScheduler()
+  ) {}
+
+  enqueueCommand(command: ICommand, policy: ErrorPolicy = this.defaultPolicy): void {
+    this.commandQueue.push({ command, policy });
+  }
+
+  addObserver(observer: ICommandObserver): void {
+    this.observers.add(observer);
+  }
+
+  removeObserver(observer: ICommandObserver): void {
+    this.observers.delete(observer);
+  }
+
+  /*
+   * Выполнение следующей команды. Ошибка команды с политикой STOP
+   * пробрасывается; с политикой SKIP возвращается undefined.
+   */
+  async executeNext(): Promise<any> {
+    const outcome = await this.executeNextWithResult();
+    if (outcome?.status === CommandStatus.FAILED && outcome.action === FailureAction.STOP) {
+      throw outcome.error;
+    }
+    return outcome?.result;
   }
 
-  getName(): string {
-    return 'Default Fast Strategy (Sleep Sort)';
+  async executeAll(): Promise<any[]> {
+    const results = [];
+    while (this.commandQueue.length > 0) {
+      const result = await this.executeNext();
+      results.push(result);
+    }
+    return results;
   }
 
-  getDescription(): string {
-    return 'Sorts array using blazing fast algorithm. Elements are added to result array in order of completion.';
+  /*
+   * Выполнение следующей команды без проброса ошибок
+   */
+  async executeNextWithResult(): Promise<CommandResult | undefined> {
+    const entry = this.commandQueue.shift();
+    if (entry) {
+      return this.run(entry.command, entry.policy);
+    }
   }
-}
-
-/*
- * Конкретная фабрика стратегий сортировки
- */
-class ConcreteSortingStrategyFactory<T extends ISortable>
-  implements ISortingStrategyFactory<T> {
-  
-  private strategies: Map<StrategyType, ISortingStrategy<T>> = new Map();
 
-  constructor() {
-    this.registerStrategy(
-      StrategyType.DEFAULT,
-      new DefaultStrategy<T>()
-    );
+  /*
+   * Выполнение очереди с итогом по каждой команде. Очередь
+   * останавливается на первой неудаче с политикой STOP.
+   */
+  async executeAllWithResults(): Promise<CommandResult[]> {
+    const outcomes: CommandResult[] = [];
+    while (this.commandQueue.length > 0) {
+      const outcome = (await this.executeNextWithResult())!;
+      outcomes.push(outcome);
+      if (outcome.status === CommandStatus.FAILED && outcome.action === FailureAction.STOP) {
+        break;
+      }
+    }
+    return outcomes;
   }
 
-  createStrategy(type: StrategyType): ISortingStrategy<T> {
-    const strategy = this.strategies.get(type);
-    
-    if (!strategy) {
-      throw new Error(
-        `Strategy type '${type}' not found. Available: ${this.listAvailableStrategies().join(', ')}`
-      );
+  /*
+   * Выполнение команд как одной транзакции; в истории
+   * пакет занимает одну запись. Ошибка пакета пробрасывается.
+   */
+  async executeBatch(commands: ICommand[], description?: string, policy: ErrorPolicy = ErrorPolicies.stop()): Promise<any[]> {
+    const outcome = await this.run(new BatchCommand(commands, description), policy);
+    if (outcome.status === CommandStatus.FAILED) {
+      throw outcome.error;
     }
+    return outcome.result;
+  }
 
-    return strategy;
+  /*
+   * Отмена последней выполненной команды. Возвращает false,
+   * если отменять нечего.
+   */
+  async undo(): Promise<boolean> {
+    const command = this.undoStack[this.undoStack.length - 1];
+    if (!command) return false;
+
+    getLogger().info(`\n↩️  Undoing: ${command.getDescription()}`, { command: command.getDescription() });
+    await command.undo!();
+    this.undoStack.pop();
+    this.redoStack.push(command);
+    return true;
   }
 
-  registerStrategy(type: StrategyType, strategy: ISortingStrategy<T>): void {
-    this.strategies.set(type, strategy);
+  /*
+   * Повторное выполнение последней отменённой команды
+   */
+  async redo(): Promise<any> {
+    const command = this.redoStack[this.redoStack.length - 1];
+    if (!command) return undefined;
+
+    getLogger().info(`\n↪️  Redoing: ${command.getDescription()}`, { command: command.getDescription() });
+    const result = await command.execute();
+    this.redoStack.pop();
+    this.undoStack.push(command);
+    this.executedCommands.push(command);
+    return result;
   }
 
-  listAvailableStrategies(): string[] {
-    return Array.from(this.strategies.keys());
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
   }
 
-  hasStrategy(type: StrategyType): boolean {
-    return this.strategies.has(type);
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
   }
-}
 
-/*
- * Построитель для создания сортировщика
- */
-class SorterBuilder<T extends ISortable> {
-  private array?: T[];
-  private strategy?: ISortingStrategy<T>;
-  private observers: IObserver<T>[] = [];
-  private config?: Partial<SortingConfig>;
-  private enableDefaultObservers: boolean = true;
+  /*
+   * Команды, доступные для отмены, от самой старой к последней
+   */
+  getUndoHistory(): ICommand[] {
+    return [...this.undoStack];
+  }
 
-  setArray(array: T[]): this {
-    this.array = array;
-    return this;
+  /*
+   * Отменённые команды, доступные для повтора, от самой старой к последней
+   */
+  getRedoHistory(): ICommand[] {
+    return [...this.redoStack];
   }
 
-  setStrategy(strategy: ISortingStrategy<T>): this {
-    this.strategy = strategy;
-    return this;
+  getQueueSize(): number {
+    return this.commandQueue.length;
   }
 
-  addObserver(observer: IObserver<T>): this {
-    this.observers.push(observer);
-    return this;
+  clearQueue(): void {
+    this.commandQueue = [];
   }
 
-  setConfig(config: Partial<SortingConfig>): this {
-    this.config = config;
-    return this;
+  clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
   }
 
-  disableDefaultObservers(): this {
-    this.enableDefaultObservers = false;
-    return this;
+  getExecutedCommands(): ICommand[] {
+    return [...this.executedCommands];
   }
 
-  build(): ArraySorter<T> {
-    if (!this.array) {
-      throw new Error('Array is required to build sorter');
-    }
-    if (!this.strategy) {
-      throw new Error('Strategy is required to build sorter');
-    }
+  /*
+   * Выполнение команды с повторами по политике; успешная
+   * команда попадает в историю. Команда без undo() очищает историю
+   * отмены: отменять то, что было до неё, уже небезопасно.
+   */
+  private async run(command: ICommand, policy: ErrorPolicy): Promise<CommandResult> {
+    const logger = getLogger();
+    const description = command.getDescription();
+    const startTime = this.scheduler.now();
 
-    // Обновление конфигурации
-    if (this.config) {
-      ConfigurationManager.getInstance().updateConfig(this.config);
-    }
+    for (let attempt = 1; ; attempt++) {
+      logger.info(`\n🔧 Executing: ${description}`, { command: description, attempt });
+      this.notify({ type: CommandEventType.STARTED, command, attempt, timestamp: this.scheduler.now() });
 
-    const sorter = new ArraySorter(this.array, this.strategy);
+      try {
+        const result = await command.execute();
+        const durationMs = this.scheduler.now() - startTime;
+
+        this.executedCommands.push(command);
+        if (command.undo) {
+          this.undoStack.push(command);
+        } else {
+          this.undoStack = [];
+        }
+        this.redoStack = [];
+        this.notify({ type: CommandEventType.SUCCEEDED, command, attempt, timestamp: this.scheduler.now(), durationMs });
+        return { command, status: CommandStatus.SUCCEEDED, result, attempts: attempt, durationMs };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (attempt <= policy.retries) {
+          const delayMs = Math.min(policy.maxBackoffMs, policy.backoffMs * Math.pow(policy.backoffFactor, attempt - 1));
+          logger.warn(`⚠️  ${description} failed (attempt ${attempt}), retrying in ${delayMs}ms: ${message}`, {
+            command: description, attempt, delayMs, error: message
+          });
+          this.notify({ type: CommandEventType.RETRYING, command, attempt, timestamp: this.scheduler.now(), error, delayMs });
+          await new Promise<void>(resolve => this.scheduler.schedule(resolve, delayMs));
+          continue;
+        }
 
-    // Добавление наблюдателей по умолчанию
-    if (this.enableDefaultObservers) {
-      sorter.addObserver(new ConsoleLoggingObserver<T>());
+        const durationMs = this.scheduler.now() - startTime;
+        logger.error(`❌ ${description} failed after ${attempt} attempt(s): ${message}`, {
+          command: description, attempts: attempt, action: policy.onFailure, error: message
+        });
+        this.notify({
+          type: CommandEventType.FAILED, command, attempt, timestamp: this.scheduler.now(),
+          durationMs, error, action: policy.onFailure
+        });
+        return { command, status: CommandStatus.FAILED, error, attempts: attempt, durationMs, action: policy.onFailure };
+      }
     }
-
-    // Добавление пользовательских наблюдателей
-    this.observers.forEach(observer => sorter.addObserver(observer));
-
-    return sorter;
   }
 
-  reset(): this {
-    this.array = undefined;
-    this.strategy = undefined;
-    this.observers = [];
-    this.config = undefined;
-    this.enableDefaultObservers = true;
-    return this;
+  private notify(event: CommandEvent): void {
+    this.observers.forEach(observer => observer.update(event));
   }
+
 }
 
+/*
+ * Состояние задания в очереди
+ */
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
 
 /*
- * Основной класс (фасад) сортировщика массива
+ * События очереди заданий
  */
-class ArraySorter<T extends ISortable> {
-  private context: SortingContext<T>;
+export enum JobEventType {
+  QUEUED = 'JOB_QUEUED',
+  STARTED = 'JOB_STARTED',
+  PROGRESS = 'JOB_PROGRESS',
+  COMPLETED = 'JOB_COMPLETED',
+  FAILED = 'JOB_FAILED',
+  CANCELLED = 'JOB_CANCELLED'
+}
+
+export interface JobProgress {
+  placed: number;
+  total: number;
+}
+
+export interface JobEvent<T extends ISortable> {
+  type: JobEventType;
+  job: SortingJob<T>;
+  timestamp: number;              // По часам сортировщика задания
+  progress: JobProgress;
+  error?: unknown;
+  sortingEvent?: SortingEvent<T>;  // ELEMENT_SORTED, вызвавшее PROGRESS
+}
+
+/*
+ * Наблюдатель за всеми заданиями очереди
+ */
+export interface IJobObserver<T extends ISortable> {
+  update(event: JobEvent<T>): void;
+}
+
+export interface JobOptions {
+  id?: string;
+  priority?: number;              // Больше - раньше; при равенстве в порядке добавления
+  executeOptions?: ExecuteOptions;
+}
+
+/*
+ * Задание очереди: один запуск ExecuteSortingCommand. Наблюдатели
+ * сортировщика задания получают события только его контекста.
+ */
+export class SortingJob<T extends ISortable> {
+  readonly result: Promise<T[]>;
+
+  private resolveResult!: (result: T[]) => void;
+  private rejectResult!: (error: unknown) => void;
+  private status: JobStatus = JobStatus.QUEUED;
+  private progress: JobProgress;
+  private error?: unknown;
+  private readonly abortController = new AbortController();
 
   constructor(
-    private array: T[],
-    private strategy: ISortingStrategy<T>
+    readonly id: string,
+    readonly priority: number,
+    readonly sorter: ArraySorter<T>,
+    private executeOptions: ExecuteOptions,
+    private emit: (event: JobEvent<T>) => void
   ) {
-    this.context = new SortingContext(strategy.getName());
+    this.result = new Promise<T[]>((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+    // Ошибка доступна через getError() и событие; без этого
+    // необработанный result завершил бы процесс
+    this.result.catch(() => undefined);
+    this.progress = { placed: 0, total: sorter.getArray().length };
   }
 
-  addObserver(observer: IObserver<T>): void {
-    this.context.attach(observer);
+  getStatus(): JobStatus {
+    return this.status;
   }
 
-  removeObserver(observer: IObserver<T>): void {
-    this.context.detach(observer);
+  getProgress(): JobProgress {
+    return { ...this.progress };
   }
 
-  @Measure
-  async execute(): Promise<T[]> {
-    console.log('\n' + '='.repeat(70));
-    console.log(`🔄 ${this.strategy.getName()}`);
-    console.log('='.repeat(70));
-    console.log(`📝 ${this.strategy.getDescription()}`);
-    console.log(`📥 Input array: [${this.array.map(x => x.getValue()).join(', ')}]`);
-    console.log('='.repeat(70));
-
-    const result = await this.strategy.sort([...this.array], this.context);
-    
-    console.log('\n' + '='.repeat(70));
-    console.log(`✅ Sorted result: [${result.map(x => x.getValue()).join(', ')}]`);
-    console.log('='.repeat(70));
-    
-    return result;
+  getError(): unknown {
+    return this.error;
   }
 
-  getContext(): SortingContext<T> {
-    return this.context;
+  /*
+   * Отмена: задание в очереди не запускается, выполняемое прерывается
+   */
+  cancel(reason?: unknown): void {
+    if (this.status === JobStatus.QUEUED) {
+      this.finish(JobStatus.CANCELLED, JobEventType.CANCELLED, new SortingAbortedError(0, reason));
+    } else if (this.status === JobStatus.RUNNING) {
+      this.abortController.abort(reason);
+    }
   }
 
-  getEventHistory(): SortingEvent<T>[] {
-    return this.context.getEventHistory();
-  }
-}
+  async run(): Promise<void> {
+    if (this.status !== JobStatus.QUEUED) return;
 
-/*
- * Интерфейс команды управления сортировкой
- */
-interface ICommand {
-  execute(): Promise<any>;
-  getDescription(): string;
-}
+    this.status = JobStatus.RUNNING;
+    this.notify(JobEventType.STARTED);
 
-/*
- * Команда для запуска сортировки
- */
-class ExecuteSortingCommand<T extends ISortable> implements ICommand {
-  constructor(private sorter: ArraySorter<T>) {}
+    const progressObserver: IObserver<T> = {
+      update: event => {
+        if (event.type !== EventType.ELEMENT_SORTED) return;
+        this.progress = { ...this.progress, placed: this.progress.placed + 1 };
+        this.notify(JobEventType.PROGRESS, { sortingEvent: event });
+      }
+    };
+    const { signal } = this.executeOptions;
+    const onAbort = () => this.abortController.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    this.sorter.addObserver(progressObserver);
 
-  async execute(): Promise<T[]> {
-    return await this.sorter.execute();
+    try {
+      const command = new ExecuteSortingCommand(this.sorter, { ...this.executeOptions, signal: this.abortController.signal });
+      const result = await command.execute();
+      this.status = JobStatus.COMPLETED;
+      this.resolveResult(result);
+      this.notify(JobEventType.COMPLETED);
+    } catch (error) {
+      const cancelled = error instanceof SortingAbortedError && !error.isTimeout();
+      this.finish(
+        cancelled ? JobStatus.CANCELLED : JobStatus.FAILED,
+        cancelled ? JobEventType.CANCELLED : JobEventType.FAILED,
+        error
+      );
+    } finally {
+      this.sorter.removeObserver(progressObserver);
+      signal?.removeEventListener('abort', onAbort);
+    }
   }
 
-  getDescription(): string {
-    return 'Execute array sorting';
+  private finish(status: JobStatus, type: JobEventType, error: unknown): void {
+    this.status = status;
+    this.error = error;
+    this.rejectResult(error);
+    this.notify(type, { error });
   }
-}
-
-/*
- * Команда для обновления конфигурации
- */
-class UpdateConfigCommand implements ICommand {
-  constructor(private config: Partial<SortingConfig>) {}
 
-  async execute(): Promise<void> {
-    ConfigurationManager.getInstance().updateConfig(this.config);
-    console.log('✅ Configuration updated');
+  /*
+   * Время по часам сортировщика задания, как у событий сортировки
+   */
+  now(): number {
+    return this.sorter.getContext().getScheduler().now();
   }
 
-  getDescription(): string {
-    return 'Update sorting configuration';
+  private notify(type: JobEventType, extra: Partial<JobEvent<T>> = {}): void {
+    this.emit({ type, job: this, timestamp: this.now(), progress: this.getProgress(), ...extra });
   }
 }
 
 /*
- * Invoker для команд
+ * Очередь заданий сортировки с ограничением числа одновременно
+ * выполняемых заданий и приоритетами
  */
-class CommandInvoker {
-  private commandQueue: ICommand[] = [];
-  private executedCommands: ICommand[] = [];
+export class SortingJobQueue<T extends ISortable> {
+  private pending: SortingJob<T>[] = [];
+  private running: Set<SortingJob<T>> = new Set();
+  private jobs: SortingJob<T>[] = [];
+  private observers: Set<IJobObserver<T>> = new Set();
+  private idleWaiters: Array<(jobs: SortingJob<T>[]) => void> = [];
+  private nextId: number = 1;
+
+  constructor(private maxConcurrency: number = 4) {
+    this.setMaxConcurrency(maxConcurrency);
+  }
+
+  /*
+   * Постановка сортировщика в очередь. Сортировщик с заданием в
+   * очереди или в работе отклоняется: два запуска на одном контексте
+   * смешали бы события заданий.
+   */
+  submit(sorter: ArraySorter<T>, options: JobOptions = {}): SortingJob<T> {
+    const active = this.jobs.find(job => job.sorter === sorter
+      && (job.getStatus() === JobStatus.QUEUED || job.getStatus() === JobStatus.RUNNING));
+    if (active) {
+      throw new Error(`Sorter already has a ${active.getStatus()} job '${active.id}'`);
+    }
+
+    const job = new SortingJob<T>(
+      options.id ?? `job-${this.nextId++}`,
+      options.priority ?? 0,
+      sorter,
+      options.executeOptions ?? {},
+      event => {
+        this.notify(event);
+        // Отмена задания в очереди может сделать очередь пустой
+        if (event.type === JobEventType.CANCELLED && !this.running.has(event.job)) {
+          this.pump();
+        }
+      }
+    );
+
+    const position = this.pending.findIndex(other => other.priority < job.priority);
+    if (position === -1) {
+      this.pending.push(job);
+    } else {
+      this.pending.splice(position, 0, job);
+    }
+    this.jobs.push(job);
 
-  enqueueCommand(command: ICommand): void {
-    this.commandQueue.push(command);
+    this.notify({ type: JobEventType.QUEUED, job, timestamp: job.now(), progress: job.getProgress() });
+    this.pump();
+    return job;
   }
 
-  async executeNext(): Promise<any> {
-    const command = this.commandQueue.shift();
-    if (command) {
-      console.log(`\n🔧 Executing: ${command.getDescription()}`);
-      const result = await command.execute();
-      this.executedCommands.push(command);
-      return result;
+  setMaxConcurrency(maxConcurrency: number): void {
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+      throw new RangeError(`Max concurrency must be a positive integer, got ${maxConcurrency}`);
     }
+    this.maxConcurrency = maxConcurrency;
+    this.pump();
   }
 
-  async executeAll(): Promise<any[]> {
-    const results = [];
-    while (this.commandQueue.length > 0) {
-      const result = await this.executeNext();
-      results.push(result);
+  addObserver(observer: IJobObserver<T>): void {
+    this.observers.add(observer);
+  }
+
+  removeObserver(observer: IJobObserver<T>): void {
+    this.observers.delete(observer);
+  }
+
+  /*
+   * Ожидание, пока не останется заданий в очереди и в работе.
+   * Не завершается ошибкой: итог каждого задания - в его статусе.
+   */
+  drain(): Promise<SortingJob<T>[]> {
+    if (this.isIdle()) {
+      return Promise.resolve(this.getJobs());
     }
-    return results;
+    return new Promise(resolve => this.idleWaiters.push(resolve));
   }
 
-  getQueueSize(): number {
-    return this.commandQueue.length;
+  cancelAll(reason?: unknown): void {
+    [...this.pending, ...this.running].forEach(job => job.cancel(reason));
   }
 
-  clearQueue(): void {
-    this.commandQueue = [];
+  getJobs(): SortingJob<T>[] {
+    return [...this.jobs];
   }
 
-  getExecutedCommands(): ICommand[] {
-    return [...this.executedCommands];
+  getPendingCount(): number {
+    return this.pending.filter(job => job.getStatus() === JobStatus.QUEUED).length;
+  }
+
+  getRunningCount(): number {
+    return this.running.size;
+  }
+
+  private isIdle(): boolean {
+    return this.running.size === 0 && this.getPendingCount() === 0;
+  }
+
+  private pump(): void {
+    while (this.running.size < this.maxConcurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      if (job.getStatus() !== JobStatus.QUEUED) continue;
+
+      this.running.add(job);
+      job.run().finally(() => {
+        this.running.delete(job);
+        this.pump();
+      });
+    }
+
+    if (this.isIdle() && this.idleWaiters.length > 0) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach(resolve => resolve(this.getJobs()));
+    }
+  }
+
+  private notify(event: JobEvent<T>): void {
+    this.observers.forEach(observer => observer.update(event));
   }
 }
 
 /*
  * Абстрактный класс с шаблонным методом для запуска сортировки
  */
-abstract class AbstractSortingRunner<T extends ISortable> {
-  async run(array: T[], strategyType: StrategyType): Promise<T[]> {
+export abstract class AbstractSortingRunner<T extends ISortable> {
+  async run(array: T[], strategyType: string): Promise<T[]> {
     this.beforeRun();
     
     const factory = new ConcreteSortingStrategyFactory<T>();
@@ -777,126 +4718,271 @@ abstract class AbstractSortingRunner<T extends ISortable> {
 /*
  * Конкретный runner с логированием
  */
-class LoggingSortingRunner<T extends ISortable> 
+export class LoggingSortingRunner<T extends ISortable> 
   extends AbstractSortingRunner<T> {
   
   protected beforeRun(): void {
-    console.log('\n🚀 Starting sorting process...');
+    getLogger().info('\n🚀 Starting sorting process...');
   }
 
   protected afterRun(): void {
-    console.log('\n✅ Sorting process completed.');
+    getLogger().info('\n✅ Sorting process completed.');
   }
 }
 
 
-async function demonstrateSorting(): Promise<void> {
-  // Настройка конфигурации
-  ConfigurationManager.getInstance().updateConfig({
-    enableLogging: true,
-    logPrefix: '> ',
-    showTimestamps: false
-  });
+/*
+ * Распределения входных данных для замеров
+ */
+export enum InputDistribution {
+  RANDOM = 'random',
+  SORTED = 'sorted',
+  REVERSED = 'reversed',
+  DUPLICATES = 'duplicates',
+  NEGATIVE = 'negative',
+  LARGE_RANGE = 'large-range'
+}
+
+/*
+ * Генератор псевдослучайных чисел с начальным значением (mulberry32),
+ * чтобы все стратегии получали одинаковые входные данные
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/*
+ * Построение целочисленного входного массива заданного распределения
+ */
+export function generateInput(distribution: InputDistribution, size: number, random: () => number): number[] {
+  const integer = (min: number, max: number) => min + Math.floor(random() * (max - min));
 
-  console.log('\n' + '='.repeat(70));
-  console.log('🎨 ARRAY SORTING USING');
-  console.log('='.repeat(70));
+  switch (distribution) {
+    case InputDistribution.SORTED:
+      return Array.from({ length: size }, () => integer(0, size * 10)).sort((a, b) => a - b);
 
-  const numbers = [3, 1, 4, 1, 5, 9, 2, 6];
-  const sortableArray = numbers.map(n => new SortableNumber(n));
+    case InputDistribution.REVERSED:
+      return Array.from({ length: size }, () => integer(0, size * 10)).sort((a, b) => b - a);
 
-  console.log(`\n📥 Input array: [${numbers.join(', ')}]`);
+    case InputDistribution.DUPLICATES:
+      return Array.from({ length: size }, () => integer(0, 5));
 
-  // Создание фабрики стратегий
-  const factory = new ConcreteSortingStrategyFactory<SortableNumber>();
-  const strategy = factory.createStrategy(StrategyType.DEFAULT);
+    case InputDistribution.NEGATIVE:
+      return Array.from({ length: size }, () => integer(-size * 10, size * 10));
 
-  // Создание наблюдателей
-  const statisticsObserver = new StatisticsObserver<SortableNumber>();
-  const historyObserver = new HistoryObserver<SortableNumber>();
+    case InputDistribution.LARGE_RANGE:
+      return Array.from({ length: size }, () => integer(0, 1_000_000_000));
 
-  // Использование Builder для создания сортировщика
-  const builder = new SorterBuilder<SortableNumber>();
-  const sorter = builder
-    .setArray(sortableArray)
-    .setStrategy(strategy)
-    .addObserver(statisticsObserver)
-    .addObserver(historyObserver)
-    .build();
+    case InputDistribution.RANDOM:
+    default:
+      return Array.from({ length: size }, () => integer(0, size * 10));
+  }
+}
 
-  // Использование Command для выполнения
-  const invoker = new CommandInvoker();
-  const sortingCommand = new ExecuteSortingCommand(sorter);
-  
-  invoker.enqueueCommand(sortingCommand);
-  const results = await invoker.executeAll();
-  
-  const sortedArray = results[0] as SortableNumber[];
-  
-  console.log('\n' + '─'.repeat(70));
-  console.log(`\n📊 Final sorted array: [${sortedArray.map(x => x.getValue()).join(', ')}]`);
-  
-  // Вывод статистики
-  setTimeout(() => {
-    console.log('\n' + '─'.repeat(70));
-    statisticsObserver.printStatistics();
-    historyObserver.printHistory();
-    console.log('\n' + '='.repeat(70));
-    console.log('✅ DEMONSTRATION COMPLETED');
-    console.log('='.repeat(70) + '\n');
-  }, 100);
+/*
+ * Параметры замеров
+ */
+export interface BenchmarkOptions {
+  strategies?: string[];                  // По умолчанию все зарегистрированные
+  distributions?: InputDistribution[];
+  sizes?: number[];
+  repeats?: number;
+  clock?: ClockType;                      // Виртуальные часы не ждут таймеров стратегий, основанных на времени
+  seed?: number;
+  maxSizes?: Record<string, number>;      // Размеры сверх предела пропускаются
+  config?: Partial<SortingConfig>;
 }
 
 /*
- * Пример с использованием Template Method Pattern
+ * Результат замеров одной стратегии на одном наборе входных данных
  */
-async function demonstrateWithTemplateMethod(): Promise<void> {
-  const numbers = [5, 2, 8, 1, 9];
-  const sortableArray = numbers.map(n => new SortableNumber(n));
+export interface BenchmarkResult {
+  strategy: string;
+  distribution: InputDistribution;
+  size: number;
+  runs: number;
+  meanMs: number;
+  medianMs: number;
+  p95Ms: number;
+  comparisons: number;  // В среднем за запуск
+  correct: boolean;
+  skipped: boolean;
+  error?: string;
+}
 
-  const runner = new LoggingSortingRunner<SortableNumber>();
-  const sortedArray = await runner.run(sortableArray, StrategyType.DEFAULT);
-  
-  console.log(`\n✅ Template Method result: [${sortedArray.map(x => x.getValue()).join(', ')}]`);
+export interface BenchmarkReport {
+  clock: ClockType;
+  repeats: number;
+  seed: number;
+  results: BenchmarkResult[];
 }
 
 /*
- * Пример с кастомной конфигурацией
+ * Замеры всех стратегий фабрики на сгенерированных данных.
+ * Время замеряется по настоящим часам, даже если стратегии
+ * работают на виртуальных.
  */
-async function demonstrateWithCustomConfig(): Promise<void> {
-  const numbers = [10, 5, 15, 3, 20];
-  const sortableArray = numbers.map(n => new SortableNumber(n));
+export class BenchmarkRunner {
+  private static readonly DEFAULT_MAX_SIZES: Record<string, number> = {
+    [StrategyType.BOGO]: 6,
+    [StrategyType.STOOGE]: 100
+  };
 
-  // Обновление конфигурации через Command
-  const invoker = new CommandInvoker();
-  const configCommand = new UpdateConfigCommand({
-    logPrefix: '[SLEEP SORT] ',
-    showTimestamps: true
-  });
+  private readonly options: Required<BenchmarkOptions>;
+
+  constructor(
+    private factory: ConcreteSortingStrategyFactory<SortableNumber> = new ConcreteSortingStrategyFactory<SortableNumber>(),
+    options: BenchmarkOptions = {}
+  ) {
+    this.options = {
+      strategies: options.strategies ?? factory.listAvailableStrategies().map(meta => meta.id),
+      distributions: options.distributions ?? Object.values(InputDistribution),
+      sizes: options.sizes ?? [5, 100, 1000],
+      repeats: options.repeats ?? 5,
+      clock: options.clock ?? ClockType.VIRTUAL,
+      seed: options.seed ?? 1,
+      maxSizes: { ...BenchmarkRunner.DEFAULT_MAX_SIZES, ...options.maxSizes },
+      config: options.config ?? {}
+    };
 
-  invoker.enqueueCommand(configCommand);
+    if (!Number.isInteger(this.options.repeats) || this.options.repeats < 1) {
+      throw new RangeError(`Benchmark repeats must be a positive integer, got ${this.options.repeats}`);
+    }
+    const invalidSize = this.options.sizes.find(size => !Number.isInteger(size) || size < 1);
+    if (invalidSize !== undefined) {
+      throw new RangeError(`Benchmark sizes must be positive integers, got ${invalidSize}`);
+    }
+  }
 
-  const factory = new ConcreteSortingStrategyFactory<SortableNumber>();
-  const strategy = factory.createStrategy(StrategyType.DEFAULT);
+  async run(): Promise<BenchmarkReport> {
+    const { strategies, distributions, sizes, repeats, clock, seed } = this.options;
+    const results: BenchmarkResult[] = [];
 
-  const sorter = new SorterBuilder<SortableNumber>()
-    .setArray(sortableArray)
-    .setStrategy(strategy)
-    .build();
+    for (const distribution of distributions) {
+      for (const size of sizes) {
+        const random = createSeededRandom(seed);
+        const inputs = Array.from({ length: repeats }, () => generateInput(distribution, size, random));
 
-  const sortingCommand = new ExecuteSortingCommand(sorter);
-  invoker.enqueueCommand(sortingCommand);
-  
-  const results = await invoker.executeAll();
-  const sortedArray = results[1] as SortableNumber[];
-  
-  console.log(`\n✅ Custom config result: [${sortedArray.map(x => x.getValue()).join(', ')}]`);
-}
+        for (const strategy of strategies) {
+          results.push(await this.measure(strategy, distribution, size, inputs));
+        }
+      }
+    }
+
+    return { clock, repeats, seed, results };
+  }
+
+  private async measure(
+    strategyId: string,
+    distribution: InputDistribution,
+    size: number,
+    inputs: number[][]
+  ): Promise<BenchmarkResult> {
+    const result: BenchmarkResult = {
+      strategy: strategyId,
+      distribution,
+      size,
+      runs: 0,
+      meanMs: 0,
+      medianMs: 0,
+      p95Ms: 0,
+      comparisons: 0,
+      correct: false,
+      skipped: false
+    };
+
+    const maxSize = this.options.maxSizes[strategyId];
+    if (maxSize !== undefined && size > maxSize) {
+      return { ...result, skipped: true };
+    }
+
+    const config = { ...this.options.config, enableLogging: false };
+    const times: number[] = [];
+    let comparisons = 0;
+    let correct = true;
+
+    for (const input of inputs) {
+      const statistics = new StatisticsObserver<SortableNumber>();
+      const sorter = new SorterBuilder<SortableNumber>()
+        .setArray(input.map(value => new SortableNumber(value)))
+        .setStrategy(this.factory.createStrategy(strategyId))
+        .setConfig(config)
+        .setScheduler(createScheduler(this.options.clock))
+        .disableDefaultObservers()
+        .addObserver(statistics)
+        .build();
+
+      const start = performance.now();
+      let output: SortableNumber[];
+      try {
+        output = await sorter.execute();
+      } catch (error) {
+        getLogger().debug(`Benchmark ${strategyId} on ${distribution} x${size} failed`, { error: (error as Error).message });
+        return { ...result, runs: times.length, error: (error as Error).message };
+      }
+      times.push(performance.now() - start);
+
+      comparisons += statistics.getStatistics().comparisons;
+      correct = correct && this.isCorrect(input, output.map(element => element.getValue()), sorter.getConfig());
+    }
+
+    const sorted = [...times].sort((a, b) => a - b);
+    return {
+      ...result,
+      runs: times.length,
+      meanMs: times.reduce((sum, time) => sum + time, 0) / times.length,
+      medianMs: sorted.length % 2 === 1
+        ? sorted[(sorted.length - 1) / 2]
+        : (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2,
+      p95Ms: sorted[Math.ceil(sorted.length * 0.95) - 1],
+      comparisons: comparisons / times.length,
+      correct
+    };
+  }
+
+  /*
+   * Результат должен совпадать с эталонной сортировкой входа
+   */
+  private isCorrect(input: number[], output: number[], config: Readonly<SortingConfig>): boolean {
+    const expected = [...input].sort((a, b) => config.order === SortOrder.DESCENDING ? b - a : a - b);
+    return output.length === expected.length && output.every((value, index) => value === expected[index]);
+  }
 
-// Запуск демонстрации
-console.log('\n🎬 Starting demonstration...\n');
-demonstrateSorting();
+  /*
+   * Текстовая таблица результатов
+   */
+  static formatTable(report: BenchmarkReport): string {
+    const header = ['Strategy', 'Distribution', 'Size', 'Mean ms', 'Median ms', 'p95 ms', 'Comparisons', 'Correct'];
+    const rows = report.results.map(result => [
+      result.strategy,
+      result.distribution,
+      `${result.size}`,
+      ...(result.skipped || result.error !== undefined
+        ? ['-', '-', '-', '-', result.skipped ? 'skipped' : `error: ${result.error}`]
+        : [
+          result.meanMs.toFixed(3),
+          result.medianMs.toFixed(3),
+          result.p95Ms.toFixed(3),
+          result.comparisons.toFixed(0),
+          result.correct ? 'yes' : 'NO'
+        ])
+    ]);
+
+    const widths = header.map((title, column) =>
+      rows.reduce((width, row) => column === header.length - 1 ? width : Math.max(width, row[column].length), title.length)
+    );
+    const format = (row: string[]) => row
+      .map((cell, column) => column < 2 || column === row.length - 1 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+      .join('  ')
+      .trimEnd();
 
-// Можно раскомментировать для других примеров:
-// setTimeout(() => demonstrateWithTemplateMethod(), 6000);
-// setTimeout(() => demonstrateWithCustomConfig(), 12000);
+    return [format(header), format(widths.map(width => '-'.repeat(width))), ...rows.map(format)].join('\n');
+  }
+}
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ClockType,
+  DefaultStrategy,
+  EventType,
+  LogManager,
+  MetricsObserver,
+  SortableNumber,
+  SorterBuilder
+} from './index';
+
+LogManager.getInstance().silence();
+
+async function sortWith(metrics: MetricsObserver<SortableNumber>, values: number[], signal?: AbortSignal): Promise<void> {
+  const sorter = new SorterBuilder<SortableNumber>()
+    .setArray(values.map(value => new SortableNumber(value)))
+    .setStrategy(new DefaultStrategy<SortableNumber>())
+    .setConfig({ clock: ClockType.VIRTUAL, enableLogging: false, baseDelayMs: 1000 })
+    .disableDefaultObservers()
+    .addObserver(metrics)
+    .build();
+  await sorter.execute({ signal }).catch(() => undefined);
+}
+
+test('metrics accumulate across runs and expose OpenMetrics text', async () => {
+  const metrics = new MetricsObserver<SortableNumber>({ durationBuckets: [0.5, 2], delayBuckets: [0.1, 0.5, 1] });
+  await sortWith(metrics, [1, 2, 3]);
+  await sortWith(metrics, [3, 1, 2]);
+  await sortWith(metrics, [2, 1], AbortSignal.abort());
+
+  const text = metrics.expose();
+  const strategy = 'strategy="Default Fast Strategy (Sleep Sort)"';
+  const lines = text.trimEnd().split('\n');
+  assert.equal(lines.at(-1), '# EOF');
+  assert.ok(text.endsWith('# EOF\n'));
+
+  [
+    '# TYPE best_sort_runs counter',
+    `best_sort_runs_total{${strategy}} 3`,
+    `best_sort_errors_total{${strategy}} 0`,
+    `best_sort_cancellations_total{${strategy}} 1`,
+    `best_sort_elements_total{${strategy}} 6`,
+    '# TYPE best_sort_run_duration_seconds histogram',
+    '# UNIT best_sort_run_duration_seconds seconds',
+    `best_sort_run_duration_seconds_bucket{${strategy},le="0.5"} 1`,
+    `best_sort_run_duration_seconds_bucket{${strategy},le="2"} 3`,
+    `best_sort_run_duration_seconds_bucket{${strategy},le="+Inf"} 3`,
+    `best_sort_run_duration_seconds_count{${strategy}} 3`,
+    `best_sort_element_delay_seconds_bucket{${strategy},le="0.1"} 2`,
+    `best_sort_element_delay_seconds_bucket{${strategy},le="0.5"} 4`,
+    `best_sort_element_delay_seconds_bucket{${strategy},le="1"} 6`,
+    `best_sort_element_delay_seconds_bucket{${strategy},le="+Inf"} 6`,
+    `best_sort_element_delay_seconds_count{${strategy}} 6`
+  ].forEach(line => assert.ok(lines.includes(line), `missing line: ${line}\n${text}`));
+
+  const delay = metrics.getMetrics().get('Default Fast Strategy (Sleep Sort)')!.elementDelay;
+  assert.deepEqual([delay.sum, delay.count], [3, 6]);
+});
+
+test('label values are escaped and reset clears every series', () => {
+  const metrics = new MetricsObserver<SortableNumber>();
+  metrics.update({ type: EventType.STARTED, timestamp: 0, metadata: { strategy: 'a "quoted"\\name' } });
+  assert.ok(metrics.expose().includes('best_sort_runs_total{strategy="a \\"quoted\\"\\\\name"} 1'));
+
+  metrics.reset();
+  assert.ok(!metrics.expose().includes('_total{'));
+  assert.throws(() => new MetricsObserver({ delayBuckets: [1, 1] }), RangeError);
+});
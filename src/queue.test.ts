@@ -0,0 +1,150 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ArraySorter,
+  DefaultStrategy,
+  EventType,
+  JobEvent,
+  JobEventType,
+  JobStatus,
+  LogManager,
+  SortableNumber,
+  SorterBuilder,
+  SortingAbortedError,
+  SortingEvent,
+  SortingJobQueue,
+  VirtualClockScheduler
+} from './index';
+
+LogManager.getInstance().silence();
+
+/*
+ * Виртуальные часы далеко от Date.now(), чтобы отличать их время
+ */
+const CLOCK_START = 1_000_000;
+
+function numberSorter(values: number[], clock: VirtualClockScheduler): ArraySorter<SortableNumber> {
+  return new SorterBuilder<SortableNumber>()
+    .setArray(values.map(value => new SortableNumber(value)))
+    .setStrategy(new DefaultStrategy<SortableNumber>())
+    .setScheduler(clock)
+    .setConfig({ enableLogging: false, baseDelayMs: 1000 })
+    .disableDefaultObservers()
+    .build();
+}
+
+function settle(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+/*
+ * Продвижение часов, пока в очереди есть задания
+ */
+async function runQueue(queue: SortingJobQueue<SortableNumber>, clock: VirtualClockScheduler) {
+  const drained = queue.drain();
+  for (let i = 0; i < 20 && queue.getRunningCount() + queue.getPendingCount() > 0; i++) {
+    await settle();
+    clock.advanceBy(500);
+  }
+  return drained;
+}
+
+function recordJobEvents(queue: SortingJobQueue<SortableNumber>): JobEvent<SortableNumber>[] {
+  const events: JobEvent<SortableNumber>[] = [];
+  queue.addObserver({ update: event => events.push(event) });
+  return events;
+}
+
+test('jobs run at most maxConcurrency at a time', async () => {
+  const clock = new VirtualClockScheduler(CLOCK_START, false);
+  const queue = new SortingJobQueue<SortableNumber>(2);
+  const running: number[] = [];
+  queue.addObserver({ update: event => event.type === JobEventType.STARTED && running.push(queue.getRunningCount()) });
+
+  const jobs = [[3, 1], [2, 1], [5, 4], [1, 0]].map(values => queue.submit(numberSorter(values, clock)));
+  assert.deepEqual([queue.getRunningCount(), queue.getPendingCount()], [2, 2]);
+
+  const finished = await runQueue(queue, clock);
+  assert.deepEqual(finished.map(job => job.getStatus()), Array(4).fill(JobStatus.COMPLETED));
+  assert.ok(running.every(count => count <= 2), `${running}`);
+  assert.deepEqual((await jobs[2].result).map(element => element.getValue()), [4, 5]);
+});
+
+test('higher priority starts first, equal priorities in submission order', async () => {
+  const clock = new VirtualClockScheduler(CLOCK_START, false);
+  const queue = new SortingJobQueue<SortableNumber>(1);
+  const events = recordJobEvents(queue);
+
+  queue.submit(numberSorter([1], clock), { id: 'first' });
+  queue.submit(numberSorter([1], clock), { id: 'low' });
+  queue.submit(numberSorter([1], clock), { id: 'high', priority: 5 });
+  queue.submit(numberSorter([1], clock), { id: 'low-2' });
+  await runQueue(queue, clock);
+
+  const started = events.filter(event => event.type === JobEventType.STARTED).map(event => event.job.id);
+  assert.deepEqual(started, ['first', 'high', 'low', 'low-2']);
+});
+
+test('cancelling a queued job skips it and cancelling a running job aborts it', async () => {
+  const clock = new VirtualClockScheduler(CLOCK_START, false);
+  const queue = new SortingJobQueue<SortableNumber>(1);
+  const events = recordJobEvents(queue);
+  const running = queue.submit(numberSorter([3, 1, 2], clock), { id: 'running' });
+  const queued = queue.submit(numberSorter([2, 1], clock), { id: 'queued' });
+
+  queued.cancel('not needed');
+  assert.equal(queued.getStatus(), JobStatus.CANCELLED);
+  await assert.rejects(queued.result, SortingAbortedError);
+
+  await settle();
+  clock.advanceBy(600);
+  running.cancel('stop');
+  const jobs = await queue.drain();
+
+  assert.deepEqual(jobs.map(job => job.getStatus()), [JobStatus.CANCELLED, JobStatus.CANCELLED]);
+  assert.equal((running.getError() as SortingAbortedError).placedCount, 2);
+  assert.deepEqual(running.getProgress(), { placed: 2, total: 3 });
+  assert.equal(clock.getPendingCount(), 0);
+  assert.ok(!events.some(event => event.job === queued && event.type === JobEventType.STARTED));
+});
+
+test('drain resolves with every job, failed ones included', async () => {
+  const clock = new VirtualClockScheduler(CLOCK_START, false);
+  const queue = new SortingJobQueue<SortableNumber>(2);
+  assert.deepEqual(await queue.drain(), []);
+
+  queue.submit(numberSorter([2, 1], clock), { id: 'ok' });
+  queue.submit(numberSorter([2, 1], clock), { id: 'late', executeOptions: { timeoutMs: 100 } });
+  const jobs = await runQueue(queue, clock);
+
+  assert.deepEqual(jobs.map(job => [job.id, job.getStatus()]), [['ok', JobStatus.COMPLETED], ['late', JobStatus.FAILED]]);
+  assert.ok((jobs[1].getError() as SortingAbortedError).isTimeout());
+  assert.throws(() => new SortingJobQueue(0), RangeError);
+});
+
+test('sorter observers see only their own job and job events use the sorter clock', async () => {
+  const clock = new VirtualClockScheduler(CLOCK_START, false);
+  const queue = new SortingJobQueue<SortableNumber>(2);
+  const events = recordJobEvents(queue);
+  const first = numberSorter([3, 1], clock);
+  const second = numberSorter([20, 10, 30], clock);
+  const seen: SortingEvent<SortableNumber>[] = [];
+  first.addObserver({ update: event => seen.push(event) });
+
+  const job = queue.submit(first);
+  queue.submit(second);
+  assert.throws(() => queue.submit(first), /already has a running job/);
+  await runQueue(queue, clock);
+
+  assert.deepEqual(
+    seen.filter(event => event.type === EventType.ELEMENT_SORTED).map(event => event.element!.getValue()),
+    [1, 3]
+  );
+  const progress = events.filter(event => event.job === job && event.type === JobEventType.PROGRESS);
+  assert.deepEqual(progress.map(event => event.sortingEvent?.element?.getValue()), [1, 3]);
+  assert.deepEqual(progress.map(event => event.timestamp), progress.map(event => event.sortingEvent!.timestamp));
+
+  const completed = events.find(event => event.job === job && event.type === JobEventType.COMPLETED)!;
+  assert.equal(completed.timestamp, first.getEventHistory().at(-1)!.timestamp);
+  assert.ok(events.every(event => event.timestamp >= CLOCK_START && event.timestamp < CLOCK_START + 10_000));
+});
@@ -0,0 +1,187 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AbstractSortingStrategy,
+  ArraySorter,
+  ClockType,
+  DefaultStrategy,
+  EventType,
+  ISortingStrategy,
+  LogManager,
+  SortableNumber,
+  SorterBuilder,
+  SortingAbortedError,
+  SortingConfig,
+  SortingContext,
+  VirtualClockScheduler
+} from './index';
+
+LogManager.getInstance().silence();
+
+/*
+ * Стратегия, которая не сообщает о размещении элементов,
+ * как сторонние стратегии из подключаемых модулей
+ */
+class SilentStrategy extends AbstractSortingStrategy<SortableNumber> {
+  async sort(array: SortableNumber[], context: SortingContext<SortableNumber>): Promise<SortableNumber[]> {
+    context.emitStarted();
+    const result = [...array].sort((a, b) => a.getValue() - b.getValue());
+    context.emitCompleted();
+    return result;
+  }
+
+  getName(): string {
+    return 'Silent';
+  }
+
+  getDescription(): string {
+    return 'Sorts without placement events.';
+  }
+}
+
+function numberSorter(
+  values: number[],
+  config: Partial<SortingConfig> = {},
+  strategy: ISortingStrategy<SortableNumber> = new DefaultStrategy<SortableNumber>()
+): ArraySorter<SortableNumber> {
+  return new SorterBuilder<SortableNumber>()
+    .setArray(values.map(value => new SortableNumber(value)))
+    .setStrategy(strategy)
+    .setConfig({ clock: ClockType.VIRTUAL, enableLogging: false, ...config })
+    .disableDefaultObservers()
+    .build();
+}
+
+/*
+ * Сортировщик на часах, которые двигаются только через advanceBy()
+ */
+function clockSorter(values: number[], clock: VirtualClockScheduler): ArraySorter<SortableNumber> {
+  return new SorterBuilder<SortableNumber>()
+    .setArray(values.map(value => new SortableNumber(value)))
+    .setStrategy(new DefaultStrategy<SortableNumber>())
+    .setScheduler(clock)
+    .setConfig({ enableLogging: false, baseDelayMs: 1000 })
+    .disableDefaultObservers()
+    .build();
+}
+
+function settle(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+async function collect(elements: AsyncIterable<SortableNumber>): Promise<number[]> {
+  const values: number[] = [];
+  for await (const element of elements) {
+    values.push(element.getValue());
+  }
+  return values;
+}
+
+test('stream yields each element while larger ones are still waiting', async () => {
+  const clock = new VirtualClockScheduler(0, false);
+  const iterator = clockSorter([3, 1, 2], clock).stream();
+  const first = iterator.next();
+  await settle();
+  clock.advanceBy(0);
+  assert.equal((await first).value?.getValue(), 1);
+  assert.equal(clock.getPendingCount(), 2);
+
+  clock.advanceBy(1000);
+  assert.deepEqual(await collect({ [Symbol.asyncIterator]: () => iterator }), [2, 3]);
+});
+
+test('stream yields result elements the strategy never reported', async () => {
+  assert.deepEqual(await collect(numberSorter([3, 1, 2], {}, new SilentStrategy()).stream()), [1, 2, 3]);
+});
+
+test('stream with repairInversions yields the repaired result once', async () => {
+  const sorter = numberSorter([4, 2, 3, 1], { verifyOrder: true, repairInversions: true });
+  assert.deepEqual(await collect(sorter.stream()), [1, 2, 3, 4]);
+});
+
+test('stopping early aborts the run and errors follow placed elements', async () => {
+  const clock = new VirtualClockScheduler(0, false);
+  const sorter = clockSorter([3, 1, 2], clock);
+  const iterator = sorter.stream();
+  const first = iterator.next();
+  await settle();
+  clock.advanceBy(0);
+  assert.equal((await first).value?.getValue(), 1);
+  await iterator.return();
+  assert.equal(sorter.getEventHistory().at(-1)?.type, EventType.CANCELLED);
+  assert.equal(clock.getPendingCount(), 0);
+
+  const slow = clockSorter([3, 1, 2], new VirtualClockScheduler());
+  const placed: number[] = [];
+  await assert.rejects(async () => {
+    for await (const element of slow.stream({ timeoutMs: 600 })) {
+      placed.push(element.getValue());
+    }
+  }, (error: unknown) => error instanceof SortingAbortedError && error.isTimeout());
+  assert.deepEqual(placed, [1, 2]);
+});
+
+test('createReadStream emits the elements in object mode', async () => {
+  const stream = numberSorter([2, -1, 0]).createReadStream();
+  assert.equal(stream.readableObjectMode, true);
+  assert.deepEqual(await collect(stream), [-1, 0, 2]);
+});
+
+test('buildAsync reads an async source, build() takes a sync one', async () => {
+  async function* values() {
+    for (const value of [5, 3, 4]) {
+      yield new SortableNumber(value);
+    }
+  }
+  const builder = new SorterBuilder<SortableNumber>()
+    .setSource(values())
+    .setStrategy(new DefaultStrategy<SortableNumber>())
+    .setConfig({ clock: ClockType.VIRTUAL, enableLogging: false })
+    .disableDefaultObservers();
+  assert.throws(() => builder.build(), /Asynchronous source requires buildAsync\(\)/);
+
+  const sorter = await builder.buildAsync();
+  assert.deepEqual(sorter.getArray().map(element => element.getValue()), [5, 3, 4]);
+  assert.deepEqual(await collect(sorter.stream()), [3, 4, 5]);
+
+  const fromSet = builder.reset()
+    .setSource(new Set([new SortableNumber(2), new SortableNumber(1)]))
+    .setStrategy(new DefaultStrategy<SortableNumber>())
+    .setConfig({ clock: ClockType.VIRTUAL, enableLogging: false })
+    .disableDefaultObservers()
+    .build();
+  assert.deepEqual(await collect(fromSet.stream()), [1, 2]);
+});
+
+test('command line prints the result of a strategy without placement events', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'best-sort-plugin-'));
+  try {
+    const plugin = path.join(dir, 'silent.mjs');
+    fs.writeFileSync(plugin, [
+      'export default {',
+      "  name: 'silent',",
+      '  register(factory) {',
+      "    factory.registerStrategy('SILENT', {",
+      "      getName: () => 'Silent',",
+      "      getDescription: () => 'Sorts without placement events.',",
+      '      sort: async array => [...array].sort((a, b) => a.getValue() - b.getValue())',
+      '    });',
+      '  }',
+      '};'
+    ].join('\n'));
+
+    const result = spawnSync(
+      process.execPath,
+      ['--import', 'tsx', path.join(__dirname, 'cli.ts'), '--plugin', plugin, '-s', 'silent', '3', '1', '2'],
+      { encoding: 'utf8', timeout: 30_000 }
+    );
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(result.stdout, '1\n2\n3\n');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AbstractSortingStrategy,
+  ClockType,
+  DefaultStrategy,
+  EventType,
+  KeyedSortable,
+  LogManager,
+  SortableNumber,
+  SorterBuilder,
+  SortingConfig,
+  SortingContext,
+  VirtualClockScheduler
+} from './index';
+
+LogManager.getInstance().silence();
+
+/*
+ * Стратегия, возвращающая вход без изменений, чтобы проверка
+ * порядка получала заведомо неверный результат
+ */
+class PassThroughStrategy extends AbstractSortingStrategy<SortableNumber> {
+  async sort(array: SortableNumber[], context: SortingContext<SortableNumber>): Promise<SortableNumber[]> {
+    context.emitStarted(array.map(element => element.getValue()));
+    array.forEach((element, index) => context.emitElementSorted(element, index, 0));
+    const verified = this.verifyResult(array, context);
+    context.emitCompleted();
+    return verified;
+  }
+
+  getName(): string {
+    return 'Pass Through';
+  }
+
+  getDescription(): string {
+    return 'Returns the input unchanged.';
+  }
+}
+
+function passThroughSorter(values: number[], config: Partial<SortingConfig>) {
+  return new SorterBuilder<SortableNumber>()
+    .setArray(values.map(value => new SortableNumber(value)))
+    .setStrategy(new PassThroughStrategy())
+    .setConfig({ clock: ClockType.VIRTUAL, enableLogging: false, verifyOrder: true, ...config })
+    .disableDefaultObservers()
+    .build();
+}
+
+function valuesOf(elements: SortableNumber[]): number[] {
+  return elements.map(element => element.getValue());
+}
+
+test('verify mode reports inversions without changing the result', async () => {
+  const sorter = passThroughSorter([1, 3, 2, 0], {});
+  assert.deepEqual(valuesOf(await sorter.execute()), [1, 3, 2, 0]);
+
+  const inversions = sorter.getEventHistory().filter(event => event.type === EventType.INVERSION_DETECTED);
+  assert.deepEqual(inversions.map(event => [event.index, event.metadata?.previousValue]), [[2, 3], [3, 2]]);
+  assert.equal(sorter.getContext().getInversionCount(), 2);
+  assert.equal(sorter.getContext().getRepairCount(), 0);
+});
+
+test('repair mode fixes inversions and reports the swaps', async () => {
+  const sorter = passThroughSorter([1, 3, 2, 0], { repairInversions: true });
+  assert.deepEqual(valuesOf(await sorter.execute()), [0, 1, 2, 3]);
+
+  const completed = sorter.getEventHistory().find(event => event.type === EventType.COMPLETED)!;
+  assert.deepEqual([completed.metadata?.inversions, completed.metadata?.repairs], [2, 4]);
+});
+
+test('repair mode fails when maxRepairPasses is not enough', async () => {
+  const sorter = passThroughSorter([5, 4, 3, 2, 1], { repairInversions: true, maxRepairPasses: 1 });
+  await assert.rejects(sorter.execute(), /Result still contains inversions after 1 repair passes/);
+
+  const sorted = passThroughSorter([5, 4, 3, 2, 1], { repairInversions: true, maxRepairPasses: 4 });
+  assert.deepEqual(valuesOf(await sorted.execute()), [1, 2, 3, 4, 5]);
+});
+
+test('inversion and repair counters reset on each run', async () => {
+  const sorter = passThroughSorter([2, 1, 0], { repairInversions: true });
+  await sorter.execute();
+  await sorter.execute();
+
+  const completed = sorter.getEventHistory().filter(event => event.type === EventType.COMPLETED);
+  assert.deepEqual(completed.map(event => [event.metadata?.inversions, event.metadata?.repairs]), [[2, 3], [2, 3]]);
+  assert.equal(sorter.getContext().getInversionCount(), 2);
+  assert.equal(sorter.getContext().getRepairCount(), 3);
+});
+
+test('stable mode keeps input order of equal values under one timer', async () => {
+  const items = [
+    { id: 'a', rank: 1 },
+    { id: 'b', rank: 0 },
+    { id: 'c', rank: 1 },
+    { id: 'd', rank: 1 }
+  ];
+  const clock = new VirtualClockScheduler(0, false);
+  const sorter = SorterBuilder.forValues(items, item => item.rank)
+    .setStrategy(new DefaultStrategy<KeyedSortable<typeof items[number]>>())
+    .setScheduler(clock)
+    .setConfig({ enableLogging: false, stable: true })
+    .disableDefaultObservers()
+    .build();
+
+  const sorting = sorter.execute();
+  assert.equal(clock.getPendingCount(), 2);
+  clock.advanceBy(10_000);
+
+  assert.deepEqual(KeyedSortable.unwrap(await sorting).map(item => item.id), ['b', 'a', 'c', 'd']);
+  const sorted = sorter.getEventHistory().filter(event => event.type === EventType.ELEMENT_SORTED);
+  assert.deepEqual(sorted.map(event => event.metadata?.originalIndex), [1, 0, 2, 3]);
+});
@@ -0,0 +1,97 @@
+import { after, before, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import {
+  ArraySorter,
+  ClockType,
+  DefaultStrategy,
+  DelayMappingType,
+  EventType,
+  LogManager,
+  SortableNumber,
+  SorterBuilder,
+  SortingAbortedError,
+  SortingConfig
+} from './index';
+
+LogManager.getInstance().silence();
+
+/*
+ * Рабочий поток загружает worker.ts через tsx: собранного worker.js
+ * при запуске тестов нет
+ */
+let tempDir: string;
+let workerScript: string;
+
+before(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'best-sort-worker-'));
+  workerScript = path.join(tempDir, 'worker.js');
+  fs.writeFileSync(workerScript, [
+    `require(${JSON.stringify(require.resolve('tsx/cjs'))});`,
+    `require(${JSON.stringify(path.join(__dirname, 'worker.ts'))});`
+  ].join('\n'));
+});
+
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+function workerSorter(values: number[], config: Partial<SortingConfig> = {}): ArraySorter<SortableNumber> {
+  return new SorterBuilder<SortableNumber>()
+    .setArray(values.map(value => new SortableNumber(value)))
+    .setStrategy(new DefaultStrategy<SortableNumber>())
+    .setConfig({ clock: ClockType.VIRTUAL, enableLogging: false, ...config })
+    .disableDefaultObservers()
+    .setWorker({ strategyId: 'DEFAULT', workerScript })
+    .build();
+}
+
+test('worker runs forward events in order with the original elements', async () => {
+  const sorter = workerSorter([30, 10, 20]);
+  const input = sorter.getArray();
+  const result = await sorter.execute();
+
+  assert.deepEqual(result, [input[1], input[2], input[0]]);
+  const events = sorter.getEventHistory();
+  assert.deepEqual(events.map(event => event.type), [
+    EventType.STARTED,
+    EventType.ELEMENT_SORTED,
+    EventType.ELEMENT_SORTED,
+    EventType.ELEMENT_SORTED,
+    EventType.COMPLETED
+  ]);
+  assert.ok(events[1].element === input[1] && events[3].element === input[0]);
+  assert.equal(sorter.getContext().getElementCount(), 3);
+  assert.equal(events.at(-1)?.metadata?.totalElements, 3);
+});
+
+test('worker errors keep their class and message', async () => {
+  const sorter = workerSorter([-2, 1], { delayMapping: DelayMappingType.LINEAR });
+  await assert.rejects(sorter.execute(), (error: unknown) =>
+    error instanceof RangeError && /negative/.test(error.message)
+  );
+});
+
+test('abort and timeout terminate the worker', async () => {
+  const terminate = mock.method(Worker.prototype, 'terminate');
+  try {
+    const config = { clock: ClockType.REAL, baseDelayMs: 60_000 };
+
+    const aborted = workerSorter([1, 2, 3], config);
+    const controller = new AbortController();
+    aborted.addObserver({ update: event => event.type === EventType.ELEMENT_SORTED && controller.abort('enough') });
+    const abortError = await aborted.execute({ signal: controller.signal }).then(() => undefined, (error: unknown) => error);
+    assert.ok(abortError instanceof SortingAbortedError);
+    assert.deepEqual([abortError.placedCount, abortError.reason], [1, 'enough']);
+    assert.equal(aborted.getEventHistory().at(-1)?.type, EventType.CANCELLED);
+    assert.equal(terminate.mock.callCount(), 1);
+
+    const timedOut = workerSorter([1, 2, 3], config);
+    const timeoutError = await timedOut.execute({ timeoutMs: 300 }).then(() => undefined, (error: unknown) => error);
+    assert.ok(timeoutError instanceof SortingAbortedError && timeoutError.isTimeout());
+    assert.equal(terminate.mock.callCount(), 2);
+  } finally {
+    terminate.mock.restore();
+  }
+});
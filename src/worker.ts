@@ -0,0 +1,84 @@
+import { parentPort, workerData } from 'worker_threads';
+import {
+  ConcreteSortingStrategyFactory,
+  createScheduler,
+  ForwardedSortingEvent,
+  LogManager,
+  RecordedElement,
+  serializeEvent,
+  SortingContext,
+  SortingWorkerData,
+  SortingWorkerMessage
+} from './index';
+
+/*
+ * Элемент в рабочем потоке: значение и его индекс во входном массиве
+ */
+class WorkerElement extends RecordedElement {
+  constructor(value: number, text: string, readonly index: number) {
+    super(value, text);
+  }
+}
+
+/*
+ * События отправляются пачками: по одному сообщению на событие
+ * основной поток тратил бы на пересылку больше, чем на сортировку
+ */
+const MAX_BATCH_SIZE = 1000;
+
+let batch: ForwardedSortingEvent[] = [];
+let flushScheduled = false;
+
+function flush(): void {
+  flushScheduled = false;
+  if (batch.length === 0) return;
+  parentPort!.postMessage({ type: 'events', events: batch } as SortingWorkerMessage);
+  batch = [];
+}
+
+function forward(event: ForwardedSortingEvent): void {
+  batch.push(event);
+  if (batch.length >= MAX_BATCH_SIZE) {
+    flush();
+  } else if (!flushScheduled) {
+    flushScheduled = true;
+    setImmediate(flush);
+  }
+}
+
+function post(message: SortingWorkerMessage): void {
+  flush();
+  parentPort!.postMessage(message);
+}
+
+/*
+ * Сортировка в рабочем потоке: события контекста и результат
+ * отправляются основному потоку
+ */
+async function run(data: SortingWorkerData): Promise<void> {
+  // Вывод делают наблюдатели основного потока
+  LogManager.getInstance().silence();
+
+  const factory = new ConcreteSortingStrategyFactory<WorkerElement>();
+  for (const plugin of data.plugins) {
+    await factory.loadPlugin(plugin);
+  }
+
+  const strategy = factory.createStrategy(data.strategyId);
+  const context = new SortingContext<WorkerElement>(strategy.getName(), createScheduler(data.config.clock), data.config);
+  context.attach({
+    update: event => forward({ event: serializeEvent(event), elementIndex: event.element?.index })
+  });
+
+  const elements = data.elements.map(({ value, text }, index) => new WorkerElement(value, text, index));
+  const result = await strategy.sort(elements, context);
+  post({ type: 'result', order: result.map(element => element.index) });
+}
+
+run(workerData as SortingWorkerData).catch(error => {
+  post({
+    type: 'error',
+    name: error instanceof Error ? error.name : 'Error',
+    message: error instanceof Error ? error.message : String(error)
+  });
+});